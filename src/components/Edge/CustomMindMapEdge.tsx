@@ -1,37 +1,74 @@
-import { BaseEdge, EdgeProps, getSmoothStepPath } from 'reactflow';
+import {
+    BaseEdge,
+    EdgeLabelRenderer,
+    EdgeProps,
+    getBezierPath,
+    getSmoothStepPath,
+    getStraightPath,
+} from 'reactflow';
+import type { EdgePathType, MindMapEdgeData } from '@/store/mindMapStore';
+
+interface CustomMindMapEdgeProps extends EdgeProps<MindMapEdgeData> {
+    pathType?: EdgePathType;
+}
+
+const getPath = (pathType: EdgePathType, props: EdgeProps) => {
+    const { sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition } = props;
+    switch (pathType) {
+        case 'straight':
+            return getStraightPath({ sourceX, sourceY, targetX, targetY });
+        case 'bezier':
+            return getBezierPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+        case 'step':
+            return getSmoothStepPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition, borderRadius: 0 });
+        case 'smoothstep':
+            return getSmoothStepPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+        default:
+            return getSmoothStepPath({
+                sourceX,
+                sourceY,
+                sourcePosition,
+                targetX,
+                targetY,
+                targetPosition,
+                borderRadius: 20, // Creates the "Arc" corner look
+            });
+    }
+};
 
 export default function CustomMindMapEdge({
-    id,
-    sourceX,
-    sourceY,
-    targetX,
-    targetY,
-    sourcePosition,
-    targetPosition,
-    style = {},
-    markerEnd,
-}: EdgeProps) {
-    const [edgePath] = getSmoothStepPath({
-        sourceX,
-        sourceY,
-        sourcePosition,
-        targetX,
-        targetY,
-        targetPosition,
-        borderRadius: 20, // Creates the "Arc" corner look
-    });
+    pathType = 'mindmap',
+    ...props
+}: CustomMindMapEdgeProps) {
+    const { id, style = {}, markerStart, markerEnd, data, selected } = props;
+    const [edgePath, labelX, labelY] = getPath(pathType, props);
 
     return (
-        <BaseEdge
-            path={edgePath}
-            markerEnd={markerEnd}
-            style={{
-                ...style,
-                strokeWidth: style.strokeWidth || 3,
-                stroke: style.stroke || '#3b82f6',
-                strokeDasharray: style.strokeDasharray
-            }}
-            id={id}
-        />
+        <>
+            <BaseEdge
+                path={edgePath}
+                markerStart={markerStart}
+                markerEnd={markerEnd}
+                style={{
+                    ...style,
+                    strokeWidth: style.strokeWidth || 3,
+                    stroke: style.stroke || '#3b82f6',
+                    strokeDasharray: style.strokeDasharray
+                }}
+                id={id}
+            />
+            {data?.label && (
+                <EdgeLabelRenderer>
+                    <div
+                        style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+                        className={`absolute px-2 py-0.5 text-xs rounded-md border bg-card text-foreground nodrag nopan ${
+                            selected ? 'border-primary' : 'border-border'
+                        }`}
+                    >
+                        {data.label}
+                    </div>
+                </EdgeLabelRenderer>
+            )}
+        </>
     );
 }
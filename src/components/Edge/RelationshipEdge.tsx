@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, getBezierPath } from 'reactflow';
+import { useMindMapStore, MindMapEdgeData } from '@/store/mindMapStore';
+
+// A cross-link between two branches. Double-click the line to add or edit its label.
+export default function RelationshipEdge({
+    id,
+    sourceX,
+    sourceY,
+    targetX,
+    targetY,
+    sourcePosition,
+    targetPosition,
+    style = {},
+    markerStart,
+    markerEnd,
+    data,
+}: EdgeProps<MindMapEdgeData>) {
+    const updateEdge = useMindMapStore((state) => state.updateEdge);
+    const [isEditing, setIsEditing] = useState(false);
+    const [editValue, setEditValue] = useState(data?.label ?? '');
+
+    const [edgePath, labelX, labelY] = getBezierPath({
+        sourceX,
+        sourceY,
+        sourcePosition,
+        targetX,
+        targetY,
+        targetPosition,
+        curvature: 0.5,
+    });
+
+    const startEditing = () => {
+        setEditValue(data?.label ?? '');
+        setIsEditing(true);
+    };
+
+    const finishEditing = () => {
+        setIsEditing(false);
+        if (editValue.trim() !== (data?.label ?? '')) {
+            updateEdge(id, { label: editValue.trim() || undefined });
+        }
+    };
+
+    return (
+        <>
+            <BaseEdge path={edgePath} markerStart={markerStart} markerEnd={markerEnd} style={style} id={id} />
+            {/* Wide invisible stroke so the dotted line is easy to double-click */}
+            <path
+                d={edgePath}
+                fill="none"
+                stroke="transparent"
+                strokeWidth={16}
+                onDoubleClick={startEditing}
+            />
+            {(isEditing || data?.label) && (
+                <EdgeLabelRenderer>
+                    <div
+                        style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+                        className="absolute pointer-events-auto nodrag nopan"
+                    >
+                        {isEditing ? (
+                            <input
+                                autoFocus
+                                value={editValue}
+                                onChange={(e) => setEditValue(e.target.value)}
+                                onBlur={finishEditing}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') finishEditing();
+                                    if (e.key === 'Escape') setIsEditing(false);
+                                }}
+                                placeholder="Label"
+                                className="w-32 px-2 py-0.5 text-xs rounded-md border border-border bg-card text-foreground outline-none"
+                            />
+                        ) : (
+                            <span
+                                onDoubleClick={startEditing}
+                                className="px-2 py-0.5 text-xs rounded-md border border-dashed border-border bg-card text-muted-foreground italic"
+                            >
+                                {data?.label}
+                            </span>
+                        )}
+                    </div>
+                </EdgeLabelRenderer>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Type, Palette, Spline, MoveRight, Minus, Trash2 } from 'lucide-react';
+import { useMindMapStore, EdgeLineStyle, EdgePathType } from '@/store/mindMapStore';
+import { DEFAULT_EDGE_COLOR, EdgeArrow, getEdgeAppearance } from '@/lib/edges';
+import { isRelationshipEdge } from '@/lib/tree';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const edgeColors: { value: string; label: string }[] = [
+  { value: DEFAULT_EDGE_COLOR, label: 'Default' },
+  { value: 'hsl(var(--primary))', label: 'Primary' },
+  { value: 'hsl(var(--accent))', label: 'Accent' },
+  { value: '#3b82f6', label: 'Blue' },
+  { value: '#8b5cf6', label: 'Purple' },
+  { value: '#10b981', label: 'Green' },
+  { value: '#f59e0b', label: 'Orange' },
+  { value: '#ef4444', label: 'Red' },
+];
+
+const pathTypes: { value: EdgePathType; label: string }[] = [
+  { value: 'mindmap', label: 'Rounded Step' },
+  { value: 'smoothstep', label: 'Smooth Step' },
+  { value: 'bezier', label: 'Bezier Curve' },
+  { value: 'straight', label: 'Straight Line' },
+  { value: 'step', label: 'Step' },
+];
+
+const lineStyles: { value: EdgeLineStyle; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+const arrows: { value: EdgeArrow; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'arrow', label: 'Open Arrow' },
+  { value: 'arrowclosed', label: 'Closed Arrow' },
+];
+
+interface EdgePropertiesPanelProps {
+  className?: string;
+}
+
+export default function EdgePropertiesPanel({ className }: EdgePropertiesPanelProps) {
+  const { edges, selectedEdgeId, selectedNodeIds, updateEdge, deleteEdges, setSelectedEdge } = useMindMapStore();
+
+  // Node properties take the panel whenever a node is selected too.
+  const edge = selectedNodeIds.length === 0 ? edges.find((e) => e.id === selectedEdgeId) : undefined;
+  const appearance = edge ? getEdgeAppearance(edge) : undefined;
+  const isRelationship = edge ? isRelationshipEdge(edge) : false;
+
+  const [label, setLabel] = useState('');
+
+  useEffect(() => {
+    setLabel(edge?.data?.label ?? '');
+  }, [edge?.id, edge?.data?.label]);
+
+  const handleLabelChange = (value: string) => {
+    setLabel(value);
+    if (edge) {
+      updateEdge(edge.id, { label: value || undefined });
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {edge && appearance && (
+        <motion.div
+          initial={{ x: 20, opacity: 0 }}
+          animate={{ x: 0, opacity: 1 }}
+          exit={{ x: 20, opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className={cn('properties-panel w-72 p-4 max-h-[80vh] overflow-y-auto', className)}
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-foreground">
+              {isRelationship ? 'Relationship' : 'Connection'}
+            </h3>
+            <Button variant="ghost" size="icon" onClick={() => setSelectedEdge(null)} className="h-8 w-8">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-5">
+            {/* Label */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-muted-foreground">
+                <Type className="h-3.5 w-3.5" />
+                Label
+              </Label>
+              <Input
+                value={label}
+                onChange={(e) => handleLabelChange(e.target.value)}
+                placeholder="Text shown on the line..."
+                className="bg-secondary/50"
+              />
+            </div>
+
+            {/* Color */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-muted-foreground">
+                <Palette className="h-3.5 w-3.5" />
+                Color
+              </Label>
+              <div className="flex flex-wrap gap-2">
+                {edgeColors.map((color) => (
+                  <button
+                    key={color.value}
+                    onClick={() => updateEdge(edge.id, { color: color.value })}
+                    style={{ backgroundColor: color.value }}
+                    className={cn('color-dot', appearance.color === color.value && 'selected ring-foreground')}
+                    title={color.label}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center gap-2 mt-2">
+                <input
+                  type="color"
+                  value={appearance.color.startsWith('#') ? appearance.color : '#3b82f6'}
+                  onChange={(e) => updateEdge(edge.id, { color: e.target.value })}
+                  className="w-8 h-8 rounded cursor-pointer border border-border p-0"
+                  title="Custom Color"
+                />
+                <span className="text-xs text-muted-foreground">Custom</span>
+              </div>
+            </div>
+
+            {/* Width and Dash Pattern */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-muted-foreground">
+                <Minus className="h-3.5 w-3.5" />
+                Line
+              </Label>
+              <div className="flex items-center gap-3">
+                <Slider
+                  value={[appearance.width]}
+                  min={1}
+                  max={8}
+                  step={1}
+                  onValueChange={([width]) => updateEdge(edge.id, { width })}
+                  className="flex-1"
+                />
+                <span className="w-8 text-right text-xs text-muted-foreground">{appearance.width}px</span>
+              </div>
+              <Select
+                value={appearance.lineStyle}
+                onValueChange={(value) => updateEdge(edge.id, { lineStyle: value as EdgeLineStyle })}
+              >
+                <SelectTrigger className="bg-secondary/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {lineStyles.map((style) => (
+                    <SelectItem key={style.value} value={style.value}>
+                      {style.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Path Type (relationship links always curve) */}
+            {!isRelationship && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2 text-muted-foreground">
+                  <Spline className="h-3.5 w-3.5" />
+                  Path
+                </Label>
+                <Select
+                  value={appearance.pathType}
+                  onValueChange={(value) => updateEdge(edge.id, { pathType: value as EdgePathType })}
+                >
+                  <SelectTrigger className="bg-secondary/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pathTypes.map((path) => (
+                      <SelectItem key={path.value} value={path.value}>
+                        {path.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Arrows */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-muted-foreground">
+                <MoveRight className="h-3.5 w-3.5" />
+                Arrows
+              </Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={appearance.startArrow}
+                  onValueChange={(value) => updateEdge(edge.id, { startArrow: value as EdgeArrow })}
+                >
+                  <SelectTrigger className="bg-secondary/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {arrows.map((arrow) => (
+                      <SelectItem key={arrow.value} value={arrow.value}>
+                        Start: {arrow.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={appearance.endArrow}
+                  onValueChange={(value) => updateEdge(edge.id, { endArrow: value as EdgeArrow })}
+                >
+                  <SelectTrigger className="bg-secondary/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {arrows.map((arrow) => (
+                      <SelectItem key={arrow.value} value={arrow.value}>
+                        End: {arrow.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 pt-4 border-t border-border">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteEdges([edge.id])}
+              className="w-full text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="h-3.5 w-3.5 mr-1" />
+              Delete connection
+            </Button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
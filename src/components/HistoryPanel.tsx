@@ -0,0 +1,104 @@
+import { motion } from 'framer-motion';
+import { X, History, Circle } from 'lucide-react';
+import type { Node } from 'reactflow';
+import { useMindMapStore, HistoryEntry, HistoryAction, MindMapNodeData } from '@/store/mindMapStore';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface HistoryPanelProps {
+  className?: string;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+const describeAction = (action: HistoryAction, nodes: Node<MindMapNodeData>[]) => {
+  const node = action.nodeId ? nodes.find((n) => n.id === action.nodeId) : undefined;
+  return node ? `${action.label} '${node.data.label}'` : action.label;
+};
+
+export default function HistoryPanel({ className, onClose }: HistoryPanelProps) {
+  const { past, future, nodes, jumpToHistory } = useMindMapStore();
+
+  // Actions in the order they happened, including the ones that were undone.
+  const actions = [...past, ...[...future].reverse()].map((entry: HistoryEntry) => entry.action);
+  const currentStep = past.length;
+
+  return (
+    <motion.div
+      initial={{ x: -20, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: -20, opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className={cn('properties-panel w-72 p-4 max-h-[70vh] flex flex-col', className)}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-foreground flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </h3>
+        <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto space-y-0.5 -mx-1">
+        <HistoryRow
+          label="Start of session"
+          active={currentStep === 0}
+          undone={false}
+          onClick={() => jumpToHistory(0)}
+        />
+        {actions.map((action, index) => (
+          <HistoryRow
+            key={`${action.timestamp}-${index}`}
+            label={describeAction(action, nodes)}
+            time={formatTime(action.timestamp)}
+            active={currentStep === index + 1}
+            undone={index + 1 > currentStep}
+            onClick={() => jumpToHistory(index + 1)}
+          />
+        ))}
+      </ol>
+
+      {actions.length === 0 && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Changes you make to this map will appear here.
+        </p>
+      )}
+    </motion.div>
+  );
+}
+
+interface HistoryRowProps {
+  label: string;
+  time?: string;
+  active: boolean;
+  undone: boolean;
+  onClick: () => void;
+}
+
+function HistoryRow({ label, time, active, undone, onClick }: HistoryRowProps) {
+  return (
+    <li>
+      <button
+        onClick={onClick}
+        className={cn(
+          'w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm transition-colors hover:bg-secondary',
+          active && 'bg-secondary font-medium',
+          undone && 'text-muted-foreground/60'
+        )}
+        title={active ? 'Current state' : 'Jump to this step'}
+      >
+        <Circle className={cn('h-2 w-2 shrink-0', active ? 'fill-primary text-primary' : 'text-muted-foreground')} />
+        <span className={cn('flex-1 truncate', undone && 'line-through')}>{label}</span>
+        {time && <span className="text-[10px] text-muted-foreground tabular-nums">{time}</span>}
+      </button>
+    </li>
+  );
+}
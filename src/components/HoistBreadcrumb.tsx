@@ -0,0 +1,70 @@
+import { Fragment } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { useMindMapStore } from '@/store/mindMapStore';
+import { Button } from '@/components/ui/button';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { getParentId } from '@/lib/tree';
+
+// The path from the top of the map down to the hoisted node. Each ancestor
+// can be hoisted in its place; the top of the path shows the whole map again.
+export default function HoistBreadcrumb() {
+  const { nodes, edges, hoistedNodeId, hoistNode } = useMindMapStore();
+  const hoisted = nodes.find((n) => n.id === hoistedNodeId);
+  if (!hoisted) return null;
+
+  const path = [hoisted];
+  for (let id = getParentId(edges, hoisted.id); id; id = getParentId(edges, id)) {
+    const ancestor = nodes.find((n) => n.id === id);
+    if (!ancestor || path.includes(ancestor)) break;
+    path.unshift(ancestor);
+  }
+
+  return (
+    <motion.div
+      initial={{ y: -10, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      className="properties-panel flex items-center gap-2 pl-4 pr-1 py-1"
+    >
+      <Breadcrumb>
+        <BreadcrumbList>
+          {path.map((node, index) => (
+            <Fragment key={node.id}>
+              {index > 0 && <BreadcrumbSeparator />}
+              <BreadcrumbItem className="max-w-[12rem]">
+                {node === hoisted ? (
+                  <BreadcrumbPage className="truncate">{node.data.label}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink asChild>
+                    <button
+                      onClick={() => hoistNode(index === 0 ? null : node.id)}
+                      className="truncate"
+                    >
+                      {node.data.label}
+                    </button>
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          ))}
+        </BreadcrumbList>
+      </Breadcrumb>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => hoistNode(null)}
+        className="h-7 w-7"
+        title="Show Whole Map"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </motion.div>
+  );
+}
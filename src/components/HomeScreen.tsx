@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Plus, 
@@ -8,9 +8,10 @@ import {
   SortDesc, 
   Trash2, 
   FileJson,
-  Upload
+  Upload,
+  Clock
 } from 'lucide-react';
-import { useMindMapStore, SavedMap } from '@/store/mindMapStore';
+import { useMindMapStore, SavedMapSummary } from '@/store/mindMapStore';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -31,8 +32,14 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
+import { useUnsavedChangesGuard } from '@/hooks/use-unsaved-changes-guard';
 import { cn } from '@/lib/utils';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { failedImport, ImportResult } from '@/lib/document/import';
+import { importAccept } from '@/lib/document/formats';
+import { XMIND_EXTENSION } from '@/lib/document/xmind';
+import ImportResultDialog from './ImportResultDialog';
+import SnapshotsDialog from './SnapshotsDialog';
 
 type SortBy = 'name' | 'createdAt' | 'updatedAt';
 type SortOrder = 'asc' | 'desc';
@@ -42,10 +49,16 @@ interface HomeScreenProps {
 }
 
 export default function HomeScreen({ onOpenEditor }: HomeScreenProps) {
-  const { savedMaps, loadMap, deleteMap, createNewMap, importFromJson } = useMindMapStore();
+  const { savedMaps, loadMap, deleteMap, createNewMap, importFromFile, importFromXMind, refreshLibrary } = useMindMapStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<SortBy>('updatedAt');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const { guardUnsavedChanges, unsavedChangesDialog } = useUnsavedChangesGuard();
+
+  useEffect(() => {
+    refreshLibrary();
+  }, [refreshLibrary]);
 
   const filteredAndSortedMaps = useMemo(() => {
     let maps = [...savedMaps];
@@ -78,51 +91,98 @@ export default function HomeScreen({ onOpenEditor }: HomeScreenProps) {
     return maps;
   }, [savedMaps, searchQuery, sortBy, sortOrder]);
 
-  const handleNewMap = () => {
+  // The map left open in the last session may still have unsaved changes.
+  const handleNewMap = () => guardUnsavedChanges(() => {
     createNewMap();
     onOpenEditor();
     toast({
       title: 'New map created',
       description: 'Start adding nodes to your new mind map!',
     });
-  };
+  });
 
-  const handleLoadMap = (mapId: string) => {
-    loadMap(mapId);
-    onOpenEditor();
-  };
+  const handleLoadMap = (mapId: string) => guardUnsavedChanges(async () => {
+    if (await loadMap(mapId)) {
+      onOpenEditor();
+    } else {
+      toast({
+        title: 'Map not found',
+        description: 'This map could not be loaded from storage.',
+        variant: 'destructive',
+      });
+    }
+  });
 
-  const handleDeleteMap = (mapId: string, mapName: string) => {
-    deleteMap(mapId);
+  const handleDeleteMap = async (mapId: string, mapName: string) => {
+    await deleteMap(mapId);
     toast({
       title: 'Map deleted',
       description: `"${mapName}" has been removed.`,
     });
   };
 
+  const showImportResult = (result: ImportResult, description = 'Your mind map has been loaded.') => {
+    if (result.errors.length || result.warnings.length || result.repairs.length) {
+      // The editor is opened once the user has read the report.
+      setImportResult(result);
+      return;
+    }
+    onOpenEditor();
+    toast({
+      title: 'Imported successfully',
+      description,
+    });
+  };
+
   const handleImport = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = `${importAccept},${XMIND_EXTENSION}`;
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
+      if (!file) return;
+      // The picker opens first: asking would take it out of the user's click.
+      guardUnsavedChanges(() => {
         const reader = new FileReader();
+        // XMind files are zip archives and may hold several maps, one per sheet.
+        if (file.name.toLowerCase().endsWith(XMIND_EXTENSION)) {
+          reader.onload = async (event) => {
+            try {
+              const result = await importFromXMind(event.target?.result as ArrayBuffer, file.name);
+              const sheets = result.documents.length;
+              showImportResult(
+                result,
+                sheets > 1 ? `${sheets} sheets were added to your library. The first one is open.` : undefined
+              );
+            } catch (error) {
+              setImportResult(failedImport(error));
+            }
+          };
+          reader.readAsArrayBuffer(file);
+          return;
+        }
         reader.onload = (event) => {
-          const json = event.target?.result as string;
-          importFromJson(json);
-          onOpenEditor();
-          toast({
-            title: 'Imported successfully',
-            description: 'Your mind map has been loaded.',
-          });
+          const text = event.target?.result as string;
+          try {
+            showImportResult(importFromFile(text, file.name));
+          } catch (error) {
+            setImportResult(failedImport(error));
+          }
         };
         reader.readAsText(file);
-      }
+      });
     };
     input.click();
   };
 
+  const handleImportResultClose = () => {
+    const imported = !!importResult?.document;
+    setImportResult(null);
+    if (imported) {
+      onOpenEditor();
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -162,7 +222,7 @@ export default function HomeScreen({ onOpenEditor }: HomeScreenProps) {
               <ThemeToggle />
               <Button variant="outline" onClick={handleImport}>
                 <Upload className="h-4 w-4 mr-2" />
-                Import JSON
+                Import
               </Button>
               <Button onClick={handleNewMap}>
                 <Plus className="h-4 w-4 mr-2" />
@@ -269,12 +329,15 @@ export default function HomeScreen({ onOpenEditor }: HomeScreenProps) {
           </div>
         )}
       </main>
+
+      <ImportResultDialog result={importResult} onClose={handleImportResultClose} />
+      {unsavedChangesDialog}
     </div>
   );
 }
 
 interface MapCardProps {
-  map: SavedMap;
+  map: SavedMapSummary;
   index: number;
   onOpen: () => void;
   onDelete: () => void;
@@ -282,74 +345,92 @@ interface MapCardProps {
 }
 
 function MapCard({ map, index, onOpen, onDelete, formatDate }: MapCardProps) {
-  const nodeCount = map.nodes.length;
-  const edgeCount = map.edges.length;
+  const { nodeCount, edgeCount } = map;
+  const [showSnapshots, setShowSnapshots] = useState(false);
 
   return (
-    <motion.div
-      initial={{ y: 20, opacity: 0 }}
-      animate={{ y: 0, opacity: 1 }}
-      transition={{ delay: 0.1 + index * 0.05 }}
-      className={cn(
-        "group relative bg-card border border-border rounded-xl p-4 hover:shadow-lg transition-all duration-200 cursor-pointer",
-        "hover:border-primary/50"
-      )}
-      onClick={onOpen}
-    >
-      {/* Preview dots pattern */}
-      <div className="h-24 bg-secondary/50 rounded-lg mb-4 relative overflow-hidden">
-        <div 
-          className="absolute inset-0"
-          style={{
-            backgroundImage: 'radial-gradient(circle, hsl(var(--muted-foreground) / 0.2) 1px, transparent 1px)',
-            backgroundSize: '10px 10px',
-          }}
-        />
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="text-2xl font-bold text-primary/20">
-            {nodeCount}
+    <>
+      <motion.div
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ delay: 0.1 + index * 0.05 }}
+        className={cn(
+          "group relative bg-card border border-border rounded-xl p-4 hover:shadow-lg transition-all duration-200 cursor-pointer",
+          "hover:border-primary/50"
+        )}
+        onClick={onOpen}
+      >
+        {/* Preview dots pattern */}
+        <div className="h-24 bg-secondary/50 rounded-lg mb-4 relative overflow-hidden">
+          <div 
+            className="absolute inset-0"
+            style={{
+              backgroundImage: 'radial-gradient(circle, hsl(var(--muted-foreground) / 0.2) 1px, transparent 1px)',
+              backgroundSize: '10px 10px',
+            }}
+          />
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-2xl font-bold text-primary/20">
+              {nodeCount}
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* Content */}
-      <div className="space-y-2">
-        <h3 className="font-semibold text-foreground truncate">{map.name}</h3>
-        <p className="text-sm text-muted-foreground">
-          {nodeCount} nodes • {edgeCount} connections
-        </p>
-        <p className="text-xs text-muted-foreground">
-          Updated {formatDate(map.updatedAt)}
-        </p>
-      </div>
+        {/* Content */}
+        <div className="space-y-2">
+          <h3 className="font-semibold text-foreground truncate">{map.name}</h3>
+          <p className="text-sm text-muted-foreground">
+            {nodeCount} nodes • {edgeCount} connections
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Updated {formatDate(map.updatedAt)}
+          </p>
+        </div>
 
-      {/* Delete button */}
-      <AlertDialog>
-        <AlertDialogTrigger asChild>
-          <Button
-            variant="ghost"
-            size="icon"
-            className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8 hover:bg-destructive/10 hover:text-destructive"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
-        </AlertDialogTrigger>
-        <AlertDialogContent onClick={(e) => e.stopPropagation()}>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Delete "{map.name}"?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete your mind map.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={onDelete} className="bg-destructive hover:bg-destructive/90">
-              Delete
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-    </motion.div>
+        {/* Versions button */}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute top-2 right-11 opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8"
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowSnapshots(true);
+          }}
+          title="Versions"
+        >
+          <Clock className="h-4 w-4" />
+        </Button>
+
+        {/* Delete button */}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8 hover:bg-destructive/10 hover:text-destructive"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent onClick={(e) => e.stopPropagation()}>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete "{map.name}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This action cannot be undone. This will permanently delete your mind map.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onDelete} className="bg-destructive hover:bg-destructive/90">
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </motion.div>
+
+      <SnapshotsDialog mapId={map.id} mapName={map.name} open={showSnapshots} onOpenChange={setShowSnapshots} />
+    </>
   );
 }
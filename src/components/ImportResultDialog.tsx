@@ -0,0 +1,77 @@
+import { AlertCircle, AlertTriangle, Wrench, LucideIcon } from 'lucide-react';
+import type { ImportResult } from '@/lib/document/import';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+interface ImportResultDialogProps {
+  result: ImportResult | null;
+  onClose: () => void;
+}
+
+interface MessageSectionProps {
+  icon: LucideIcon;
+  title: string;
+  messages: string[];
+  className: string;
+}
+
+function MessageSection({ icon: Icon, title, messages, className }: MessageSectionProps) {
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className={cn('flex items-center gap-2 text-sm font-medium', className)}>
+        <Icon className="h-4 w-4" />
+        {title}
+      </h4>
+      <ul className="list-disc pl-10 space-y-1 text-sm text-muted-foreground">
+        {messages.map((message, index) => (
+          <li key={index}>{message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Shows what happened during an import: why a file was rejected, or what was
+ * repaired to make it load. Clean imports are reported with a toast instead.
+ */
+export default function ImportResultDialog({ result, onClose }: ImportResultDialogProps) {
+  const rejected = !!result && !result.document;
+
+  return (
+    <Dialog open={!!result} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rejected ? 'Import failed' : 'Imported with changes'}</DialogTitle>
+          <DialogDescription>
+            {rejected
+              ? 'The file could not be opened. Nothing was changed.'
+              : 'The map was loaded, but some parts of the file had to be adjusted.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result && (
+          <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+            <MessageSection icon={AlertCircle} title="Errors" messages={result.errors} className="text-destructive" />
+            <MessageSection icon={Wrench} title="Repaired" messages={result.repairs} className="text-foreground" />
+            <MessageSection icon={AlertTriangle} title="Warnings" messages={result.warnings} className="text-foreground" />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={onClose}>OK</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
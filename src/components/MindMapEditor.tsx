@@ -1,29 +1,51 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactFlow, {
   Controls,
   MiniMap,
   ReactFlowProvider,
   Panel,
+  Node,
+  Connection,
+  EdgeProps,
+  OnConnectStartParams,
+  useReactFlow,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { motion } from 'framer-motion';
-import { Edit3 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Edit3, History, Check, CircleDot, ListTree } from 'lucide-react';
 
 import { useMindMapStore } from '@/store/mindMapStore';
 import MindMapNode from './MindMapNode';
 import Toolbar from './Toolbar';
 import PropertiesPanel from './PropertiesPanel';
+import EdgePropertiesPanel from './EdgePropertiesPanel';
+import HistoryPanel from './HistoryPanel';
+import OutlinePanel from './OutlinePanel';
+import HoistBreadcrumb from './HoistBreadcrumb';
+import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
+import { useAutosave } from '@/hooks/use-autosave';
+import { useDeleteNodes } from '@/hooks/use-delete-nodes';
+import { createFragment, readClipboard, writeClipboard } from '@/lib/clipboard';
+import { canReparent, getDescendantIds, getSiblingIds, getTreeConnectionError } from '@/lib/tree';
+import { DASH_PATTERNS } from '@/lib/edges';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import CustomMindMapEdge from './Edge/CustomMindMapEdge';
+import RelationshipEdge from './Edge/RelationshipEdge';
 
 const nodeTypes = {
   mindMapNode: MindMapNode,
 };
 
+// Every hierarchy path type is drawn by the same edge so that labels show on all of them.
 const edgeTypes = {
   mindmap: CustomMindMapEdge,
+  smoothstep: (props: EdgeProps) => <CustomMindMapEdge {...props} pathType="smoothstep" />,
+  step: (props: EdgeProps) => <CustomMindMapEdge {...props} pathType="step" />,
+  straight: (props: EdgeProps) => <CustomMindMapEdge {...props} pathType="straight" />,
+  bezier: (props: EdgeProps) => <CustomMindMapEdge {...props} pathType="bezier" />,
+  relationship: RelationshipEdge,
 };
 
 interface MindMapEditorInnerProps {
@@ -38,21 +60,67 @@ function MindMapEditorInner({ onGoHome }: MindMapEditorInnerProps) {
     onEdgesChange,
     onConnect,
     addNode,
-    deleteNode,
+    deleteEdges,
+    pasteFragment,
+    reparentNode,
+    moveSibling,
+    relayout,
+    setDropTarget,
+    beginTransaction,
+    commitTransaction,
     selectedNodeId,
+    selectedNodeIds,
     setSelectedNode,
+    setSelectedEdge,
     mapName,
     setMapName,
     edgeStyle,
     edgeColor,
     edgeLineStyle,
+    graphMode,
+    connectionKind,
+    hoistedNodeId,
     saveCurrentMap,
+    isDirty,
     undo,
     redo,
   } = useMindMapStore();
 
+  useAutosave();
+  const deleteNodesWithUndo = useDeleteNodes();
+  const { getIntersectingNodes, fitView } = useReactFlow();
+
+  // While a node is hoisted only its branch is on the canvas. Everything else
+  // stays in the store, so edits made here still land in the whole map.
+  const isHoisted = nodes.some((n) => n.id === hoistedNodeId);
+  const branchIds = useMemo(
+    () => (isHoisted && hoistedNodeId ? getDescendantIds(edges, [hoistedNodeId]) : null),
+    [isHoisted, hoistedNodeId, edges]
+  );
+  const shownNodes = useMemo(
+    () => (branchIds ? nodes.filter((n) => branchIds.has(n.id)) : nodes),
+    [branchIds, nodes]
+  );
+  const shownEdges = useMemo(
+    () => (branchIds ? edges.filter((e) => branchIds.has(e.source) && branchIds.has(e.target)) : edges),
+    [branchIds, edges]
+  );
+
+  const framedHoistId = useRef(hoistedNodeId);
+  useEffect(() => {
+    if (framedHoistId.current === hoistedNodeId) return;
+    framedHoistId.current = hoistedNodeId;
+    // Wait for React Flow to drop or add the nodes before framing them.
+    const frame = requestAnimationFrame(() => fitView({ padding: 0.3, duration: 300 }));
+    return () => cancelAnimationFrame(frame);
+  }, [hoistedNodeId, fitView]);
+
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [titleValue, setTitleValue] = useState(mapName);
+  // The history and the outline share the left side of the canvas.
+  const [sidePanel, setSidePanel] = useState<'history' | 'outline' | null>(null);
+  const toggleSidePanel = (panel: 'history' | 'outline') =>
+    setSidePanel((current) => (current === panel ? null : panel));
 
   useEffect(() => {
     setTitleValue(mapName);
@@ -78,14 +146,53 @@ function MindMapEditorInner({ onGoHome }: MindMapEditorInnerProps) {
       // Ctrl/Cmd + S to save
       if ((event.ctrlKey || event.metaKey) && event.key === 's') {
         event.preventDefault();
-        saveCurrentMap();
-        toast({
-          title: 'Saved!',
-          description: 'Your mind map has been saved.',
+        saveCurrentMap()
+          .then(() => toast({
+            title: 'Saved!',
+            description: 'Your mind map has been saved.',
+          }))
+          .catch(() => toast({
+            title: 'Save failed',
+            description: 'Your mind map could not be written to storage.',
+            variant: 'destructive',
+          }));
+        return;
+      }
+
+      // Ctrl/Cmd + C / X / V to copy, cut and paste branches
+      if ((event.ctrlKey || event.metaKey) && ['c', 'x'].includes(event.key.toLowerCase())) {
+        const isCut = event.key.toLowerCase() === 'x';
+        // The root can be copied with its branches but, as with Delete, never cut.
+        const copiedIds = isCut ? selectedNodeIds.filter((id) => id !== 'root') : selectedNodeIds;
+        const fragment = createFragment(nodes, edges, copiedIds);
+        if (!fragment) return;
+        event.preventDefault();
+        writeClipboard(fragment);
+        if (isCut) {
+          deleteNodesWithUndo(copiedIds);
+        }
+        return;
+      }
+
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'v') {
+        event.preventDefault();
+        readClipboard().then((fragment) => {
+          if (fragment) {
+            pasteFragment(fragment, selectedNodeId ?? undefined);
+          }
         });
         return;
       }
 
+      // Alt + Up / Down moves the selected node among its siblings
+      if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+        if (!selectedNodeId) return;
+        event.preventDefault();
+        const index = getSiblingIds(nodes, edges, selectedNodeId).indexOf(selectedNodeId);
+        moveSibling(selectedNodeId, index + (event.key === 'ArrowUp' ? -1 : 1));
+        return;
+      }
+
       switch (event.key) {
         case 'a':
         case 'A':
@@ -113,17 +220,98 @@ function MindMapEditorInner({ onGoHome }: MindMapEditorInnerProps) {
           break;
         case 'Delete':
         case 'Backspace':
-          if (selectedNodeId && selectedNodeId !== 'root') {
+          if (selectedNodeIds.length > 0) {
+            if (selectedNodeIds.some((id) => id !== 'root')) {
+              event.preventDefault();
+              // Shift keeps the children and moves them up a level.
+              deleteNodesWithUndo(selectedNodeIds, event.shiftKey ? 'reparent' : 'subtree');
+            }
+          } else if (edges.some((e) => e.selected)) {
             event.preventDefault();
-            deleteNode(selectedNodeId);
+            deleteEdges(edges.filter((e) => e.selected).map((e) => e.id));
           }
           break;
         case 'Escape':
           setSelectedNode(null);
+          setSelectedEdge(null);
           break;
       }
     },
-    [addNode, deleteNode, selectedNodeId, setSelectedNode, saveCurrentMap, undo, redo]
+    [addNode, deleteNodesWithUndo, deleteEdges, pasteFragment, moveSibling, nodes, edges, selectedNodeId, selectedNodeIds, setSelectedNode, setSelectedEdge, saveCurrentMap, undo, redo]
+  );
+
+  // A single node dragged over another one is moved under it on drop.
+  const handleNodeDrag = useCallback(
+    (_: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+      if (draggedNodes.length > 1) return;
+      const target = getIntersectingNodes(node).find(
+        (n) => !n.hidden && canReparent(edges, node.id, n.id)
+      );
+      setDropTarget(target?.id ?? null);
+    },
+    [edges, getIntersectingNodes, setDropTarget]
+  );
+
+  // Nodes under a layout go back to their place unless they were reparented.
+  // A list item dropped among the other items of its list moves to that spot.
+  const handleNodeDragStop = useCallback(
+    (_: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+      const { dropTargetId, nodes, edges } = useMindMapStore.getState();
+      if (dropTargetId) {
+        reparentNode(node.id, dropTargetId);
+        setDropTarget(null);
+      } else {
+        const middle = (n: Node) => n.position.y + (n.height ?? 0) / 2;
+        const itemIds = draggedNodes.length === 1 && node.data.order !== undefined
+          ? getSiblingIds(nodes, edges, node.id)
+          : [];
+        const index = nodes.filter(
+          (n) => n.id !== node.id && itemIds.includes(n.id) && middle(n) < middle(node)
+        ).length;
+        if (itemIds.length === 0 || !moveSibling(node.id, index)) {
+          relayout();
+        }
+      }
+      commitTransaction();
+    },
+    [reparentNode, setDropTarget, moveSibling, relayout, commitTransaction]
+  );
+
+  // In tree mode connections that would break the hierarchy are refused while
+  // dragging; dropping one anyway explains why nothing happened.
+  const connectStart = useRef<OnConnectStartParams | null>(null);
+
+  const isValidConnection = useCallback(
+    (connection: Connection) => {
+      if (connectionKind === 'relationship') return connection.source !== connection.target;
+      return graphMode === 'free' || !getTreeConnectionError(edges, connection);
+    },
+    [connectionKind, graphMode, edges]
+  );
+
+  const handleConnectEnd = useCallback(
+    (event: MouseEvent | TouchEvent) => {
+      const start = connectStart.current;
+      connectStart.current = null;
+      if (graphMode === 'free' || connectionKind === 'relationship' || !start?.nodeId) return;
+
+      const handle = (event.target as Element | null)?.closest?.('.react-flow__handle');
+      const otherNodeId = handle?.getAttribute('data-nodeid');
+      if (!otherNodeId) return;
+
+      const connection: Connection = start.handleType === 'target'
+        ? { source: otherNodeId, target: start.nodeId, sourceHandle: null, targetHandle: null }
+        : { source: start.nodeId, target: otherNodeId, sourceHandle: null, targetHandle: null };
+      const error = getTreeConnectionError(edges, connection);
+      if (error) {
+        toast({
+          title: 'Connection not allowed',
+          description: error,
+          variant: 'destructive',
+        });
+      }
+    },
+    [graphMode, connectionKind, edges]
   );
 
   useEffect(() => {
@@ -181,9 +369,41 @@ function MindMapEditorInner({ onGoHome }: MindMapEditorInnerProps) {
               <Edit3 className="h-3.5 w-3.5 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
             </button>
           )}
+
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            {isDirty ? (
+              <>
+                <CircleDot className="h-3 w-3 text-orange-500" />
+                Unsaved
+              </>
+            ) : (
+              <>
+                <Check className="h-3 w-3" />
+                Saved
+              </>
+            )}
+          </span>
         </div>
 
         <div className="flex items-center gap-3">
+          <Button
+            variant={sidePanel === 'outline' ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => toggleSidePanel('outline')}
+            className="h-8 w-8"
+            title="Outline"
+          >
+            <ListTree className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={sidePanel === 'history' ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => toggleSidePanel('history')}
+            className="h-8 w-8"
+            title="History"
+          >
+            <History className="h-4 w-4" />
+          </Button>
           <ThemeToggle />
           <div className="text-sm text-muted-foreground">
             {nodes.length} nodes • {edges.length} connections
@@ -194,11 +414,28 @@ function MindMapEditorInner({ onGoHome }: MindMapEditorInnerProps) {
       {/* Canvas */}
       <div className="flex-1 relative">
         <ReactFlow
-          nodes={nodes}
-          edges={edges}
+          nodes={shownNodes}
+          edges={shownEdges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onConnect={onConnect}
+          onConnectStart={(_, params) => { connectStart.current = params; }}
+          onConnectEnd={handleConnectEnd}
+          isValidConnection={isValidConnection}
+          onNodeDragStart={(_, node, draggedNodes) =>
+            draggedNodes.length > 1
+              ? beginTransaction(`Move ${draggedNodes.length} nodes`)
+              : beginTransaction('Move node', { nodeId: node.id })
+          }
+          onNodeDrag={handleNodeDrag}
+          onNodeDragStop={handleNodeDragStop}
+          onSelectionDragStart={(_, draggedNodes) => beginTransaction(`Move ${draggedNodes.length} nodes`)}
+          onSelectionDragStop={() => {
+            relayout();
+            commitTransaction();
+          }}
+          // Deletion goes through the store so it is protected and undoable.
+          deleteKeyCode={null}
           nodeTypes={nodeTypes}
           edgeTypes={edgeTypes}
           fitView
@@ -208,14 +445,18 @@ function MindMapEditorInner({ onGoHome }: MindMapEditorInnerProps) {
             style: {
               strokeWidth: 2,
               stroke: edgeColor,
-              strokeDasharray: edgeLineStyle === 'dashed' ? '5,5' : undefined,
+              strokeDasharray: DASH_PATTERNS[edgeLineStyle],
             },
           }}
-          connectionLineStyle={{
-            strokeWidth: 2,
-            stroke: edgeColor,
-            strokeDasharray: edgeLineStyle === 'dashed' ? '5,5' : undefined,
-          }}
+          connectionLineStyle={
+            connectionKind === 'relationship'
+              ? { strokeWidth: 2, stroke: 'hsl(var(--muted-foreground))', strokeDasharray: DASH_PATTERNS.dotted }
+              : {
+                strokeWidth: 2,
+                stroke: edgeColor,
+                strokeDasharray: DASH_PATTERNS[edgeLineStyle],
+              }
+          }
           className="canvas-background"
           onPaneClick={() => setSelectedNode(null)}
         >
@@ -250,9 +491,23 @@ function MindMapEditorInner({ onGoHome }: MindMapEditorInnerProps) {
             <Toolbar onGoHome={onGoHome} />
           </Panel>
 
+          {/* Breadcrumb back out of a hoisted branch */}
+          <Panel position="top-center" className="mt-4">
+            <HoistBreadcrumb />
+          </Panel>
+
+          {/* History and Outline Panels */}
+          <Panel position="top-left" className="mt-4 ml-4">
+            <AnimatePresence mode="wait">
+              {sidePanel === 'history' && <HistoryPanel key="history" onClose={() => setSidePanel(null)} />}
+              {sidePanel === 'outline' && <OutlinePanel key="outline" onClose={() => setSidePanel(null)} />}
+            </AnimatePresence>
+          </Panel>
+
           {/* Properties Panel */}
           <Panel position="top-right" className="mt-4 mr-4">
             <PropertiesPanel />
+            <EdgePropertiesPanel />
           </Panel>
         </ReactFlow>
       </div>
@@ -1,25 +1,41 @@
-import { memo, useState, useRef, useEffect } from 'react';
+import { memo, useState, useRef, useEffect, useMemo } from 'react';
 import { Handle, Position, NodeProps, NodeResizer, NodeToolbar } from 'reactflow';
 import { motion } from 'framer-motion';
-import { ImageIcon, Plus, Trash2, Palette, GitBranch, CornerDownRight, CopyPlus } from 'lucide-react';
+import { ImageIcon, Plus, Trash2, Palette, GitBranch, CornerDownRight, CopyPlus, Unlink, Focus } from 'lucide-react';
 import { useMindMapStore, MindMapNodeData, NodeColor, TextColor, FontFamily, TextSize } from '@/store/mindMapStore';
 import { cn } from '@/lib/utils';
+import { getChildIds, getDescendantIds } from '@/lib/tree';
+import { useDeleteNodes } from '@/hooks/use-delete-nodes';
 
 
 
-const CollapseToggle = ({ collapsed, onClick }: { collapsed: boolean; onClick: (e: React.MouseEvent) => void }) => (
+// A collapsed node shows how many nodes it hides instead of the bar.
+const CollapseToggle = ({ collapsed, hiddenCount, onClick }: { collapsed: boolean; hiddenCount: number; onClick: (e: React.MouseEvent) => void }) => (
   <div
     onClick={(e) => { e.stopPropagation(); onClick(e); }}
     className={cn(
-      "w-4 h-4 bg-background border border-primary rounded-full flex items-center justify-center cursor-pointer hover:bg-muted transition-all shadow-sm absolute z-50",
-      collapsed && "bg-muted"
+      "min-w-4 h-4 bg-background border border-primary rounded-full flex items-center justify-center cursor-pointer hover:bg-muted transition-all shadow-sm absolute z-50",
+      collapsed && "bg-muted px-1 text-[10px] font-bold leading-none"
     )}
-    title={collapsed ? "Expand" : "Collapse"}
+    title={collapsed ? `Expand (${hiddenCount} hidden)` : "Collapse"}
   >
-    <div className={cn("w-2 h-0.5 bg-foreground transition-transform", collapsed && "rotate-90")} />
+    {collapsed ? hiddenCount : <div className="w-2 h-0.5 bg-foreground" />}
   </div>
 );
 
+// Extra attachment points used by layouts that grow left, up or down. They come
+// after the visible handles, which stay the default for edges without a handle.
+const LayoutHandles = () => (
+  <>
+    <Handle type="source" id="left" position={Position.Left} isConnectable={false} className="!opacity-0 !pointer-events-none" />
+    <Handle type="source" id="top" position={Position.Top} isConnectable={false} className="!opacity-0 !pointer-events-none" />
+    <Handle type="source" id="bottom" position={Position.Bottom} isConnectable={false} className="!opacity-0 !pointer-events-none" />
+    <Handle type="target" id="right" position={Position.Right} isConnectable={false} className="!opacity-0 !pointer-events-none" />
+    <Handle type="target" id="top" position={Position.Top} isConnectable={false} className="!opacity-0 !pointer-events-none" />
+    <Handle type="target" id="bottom" position={Position.Bottom} isConnectable={false} className="!opacity-0 !pointer-events-none" />
+  </>
+);
+
 const colorClasses: Record<NodeColor, string> = {
   blue: 'border-node-blue bg-node-blue/10',
   purple: 'border-node-purple bg-node-purple/10',
@@ -71,7 +87,17 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
   const [editValue, setEditValue] = useState(data.label);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const { updateNodeData, setSelectedNode, toggleCollapse, addSibling, addNode } = useMindMapStore();
+  const { updateNodeData, toggleCollapse, addSibling, addNode, beginTransaction, commitTransaction } = useMindMapStore();
+  // Node actions only make sense for a single node; bulk edits go through the properties panel.
+  const isOnlySelection = useMindMapStore((state) => state.selectedNodeIds.length === 1);
+  const deleteNodes = useDeleteNodes();
+  const isDropTarget = useMindMapStore((state) => state.dropTargetId === id);
+  const edges = useMindMapStore((state) => state.edges);
+  const hasChildren = useMemo(() => getChildIds(edges, id).length > 0, [edges, id]);
+  const hiddenCount = useMemo(
+    () => (data.collapsed ? getDescendantIds(edges, [id]).size - 1 : 0),
+    [edges, id, data.collapsed]
+  );
 
   useEffect(() => {
     setEditValue(data.label);
@@ -92,7 +118,7 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
 
   const handleBlur = () => {
     setIsEditing(false);
-    if (editValue.trim()) {
+    if (editValue.trim() && editValue.trim() !== data.label) {
       updateNodeData(id, { label: editValue.trim() });
     } else {
       setEditValue(data.label);
@@ -123,10 +149,6 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
     }
   };
 
-  const handleClick = () => {
-    setSelectedNode(id);
-  };
-
   const isRoot = id === 'root';
   const isImage = data.nodeType === 'image';
   const textColor = data.textColor || 'default';
@@ -149,11 +171,13 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
           minHeight={100}
           handleStyle={{ width: 12, height: 12, borderRadius: '50%' }}
           lineStyle={{ borderWidth: 1 }}
+          onResizeStart={() => beginTransaction('Resize image', { nodeId: id })}
+          onResizeEnd={commitTransaction}
         />
       )}
 
-      {selected && (
-        <NodeToolbar isVisible={selected} position={Position.Top} className="flex gap-2 bg-card border border-border p-1 rounded-md shadow-sm">
+      {selected && isOnlySelection && (
+        <NodeToolbar isVisible position={Position.Top} className="flex gap-2 bg-card border border-border p-1 rounded-md shadow-sm">
           <button
             onClick={() => useMindMapStore.getState().addNode(id, 'text', 'default')}
             className="p-1.5 hover:bg-secondary rounded-sm transition-colors"
@@ -168,10 +192,26 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
           >
             <GitBranch className="h-4 w-4" />
           </button>
+          {hasChildren && (
+            <button
+              onClick={() => useMindMapStore.getState().hoistNode(id)}
+              className="p-1.5 hover:bg-secondary rounded-sm transition-colors"
+              title="Focus on This Branch"
+            >
+              <Focus className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={() => deleteNodes([id], 'reparent')}
+            className="p-1.5 hover:bg-destructive/10 text-destructive rounded-sm transition-colors"
+            title="Delete Node, Keep Children"
+          >
+            <Unlink className="h-4 w-4" />
+          </button>
           <button
-            onClick={() => useMindMapStore.getState().deleteNode(id)}
+            onClick={() => deleteNodes([id], 'subtree')}
             className="p-1.5 hover:bg-destructive/10 text-destructive rounded-sm transition-colors"
-            title="Delete Node"
+            title="Delete Node and Children"
           >
             <Trash2 className="h-4 w-4" />
           </button>
@@ -190,7 +230,6 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
         initial={{ scale: 0.8, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
         transition={{ duration: 0.2, ease: 'easeOut' }}
-        onClick={handleClick}
         onDoubleClick={handleDoubleClick}
         style={{ ...backgroundStyle, width: '100%', height: '100%' }}
         className={cn(
@@ -199,6 +238,7 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
           !isImage && 'max-w-[320px]',
           colorClasses[data.color],
           selected && 'ring-2 ring-primary ring-offset-2 ring-offset-background',
+          isDropTarget && 'outline-dashed outline-2 outline-offset-4 outline-primary bg-primary/10',
           isImage && 'p-2 min-w-[160px] w-full h-full flex flex-col'
         )}
       >
@@ -217,6 +257,7 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
               position={Position.Right}
               className="!w-3 !h-3 !bg-primary !border-2 !border-card"
             />
+            <LayoutHandles />
           </>
         ) : (
           <>
@@ -233,14 +274,17 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
               position={Position.Right}
               className="!w-3 !h-3 !bg-primary !border-2 !border-card"
             />
-
-            {/* Collapse Toggle - Independent overlay positioned near the right handle */}
-            <div className="absolute -right-3 top-1/2 -translate-y-1/2 z-50">
-              <CollapseToggle collapsed={!!data.collapsed} onClick={() => toggleCollapse(id)} />
-            </div>
+            <LayoutHandles />
           </>
         )}
 
+        {/* Collapse Toggle - Independent overlay positioned near the right handle */}
+        {hasChildren && (
+          <div className="absolute -right-3 top-1/2 -translate-y-1/2 z-50">
+            <CollapseToggle collapsed={!!data.collapsed} hiddenCount={hiddenCount} onClick={() => toggleCollapse(id)} />
+          </div>
+        )}
+
         {isImage ? (
           <div className="space-y-2 flex-1 flex flex-col">
             {data.imageUrl ? (
@@ -299,6 +343,16 @@ function MindMapNode({ id, data, selected }: NodeProps<MindMapNodeData>) {
                 {data.description}
               </p>
             )}
+
+            {data.tags && data.tags.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-1 mt-2">
+                {data.tags.map((tag) => (
+                  <span key={tag} className="rounded-full bg-secondary px-2 py-0.5 text-[10px] text-secondary-foreground">
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
           </>
         )}
       </motion.div>
@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ListTree, ChevronRight } from 'lucide-react';
+import type { Edge, Node } from 'reactflow';
+import { useMindMapStore, MindMapNodeData } from '@/store/mindMapStore';
+import { Button } from '@/components/ui/button';
+import { useDeleteNodes } from '@/hooks/use-delete-nodes';
+import { getOrderedChildMap, getSiblingIds, isHierarchyEdge } from '@/lib/tree';
+import { cn } from '@/lib/utils';
+
+interface OutlinePanelProps {
+  className?: string;
+  onClose: () => void;
+}
+
+interface OutlineRow {
+  node: Node<MindMapNodeData>;
+  depth: number;
+  hasChildren: boolean;
+}
+
+// The map as a flat list of rows, each parent followed by its children in
+// sibling order. Children of collapsed nodes are left out, as on the canvas.
+const buildRows = (nodes: Node<MindMapNodeData>[], edges: Edge[], rootIds: string[]): OutlineRow[] => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const childMap = getOrderedChildMap(nodes, edges);
+  const rows: OutlineRow[] = [];
+  const visited = new Set<string>();
+  const visit = (id: string, depth: number) => {
+    const node = byId.get(id);
+    if (!node || visited.has(id)) return;
+    visited.add(id);
+    const childIds = childMap.get(id) ?? [];
+    rows.push({ node, depth, hasChildren: childIds.length > 0 });
+    if (!node.data.collapsed) childIds.forEach((childId) => visit(childId, depth + 1));
+  };
+  rootIds.forEach((id) => visit(id, 0));
+  return rows;
+};
+
+export default function OutlinePanel({ className, onClose }: OutlinePanelProps) {
+  const {
+    nodes,
+    edges,
+    hoistedNodeId,
+    selectedNodeId,
+    setSelectedNode,
+    updateNodeData,
+    toggleCollapse,
+    addNode,
+    addSibling,
+    indentNode,
+    outdentNode,
+    moveSibling,
+  } = useMindMapStore();
+  const deleteNodes = useDeleteNodes();
+
+  // A hoisted branch is outlined on its own, like on the canvas.
+  const hasParent = new Set(edges.filter(isHierarchyEdge).map((e) => e.target));
+  const rootIds = nodes.some((n) => n.id === hoistedNodeId)
+    ? [hoistedNodeId!]
+    : nodes.filter((n) => !hasParent.has(n.id)).map((n) => n.id);
+  const rows = buildRows(nodes, edges, rootIds);
+
+  // Rows move or appear after an edit; the caret follows the node it was in.
+  const inputs = useRef(new Map<string, HTMLInputElement>());
+  const pendingFocus = useRef<string | null>(null);
+  useEffect(() => {
+    const input = pendingFocus.current && inputs.current.get(pendingFocus.current);
+    if (input) {
+      pendingFocus.current = null;
+      input.focus();
+    }
+  });
+
+  const focusRow = (index: number) => {
+    const row = rows[index];
+    if (row) inputs.current.get(row.node.id)?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    const { node } = rows[index];
+    const run = (action: () => void) => {
+      event.preventDefault();
+      action();
+      pendingFocus.current = useMindMapStore.getState().selectedNodeId;
+    };
+
+    if (event.key === 'Enter') {
+      // A top row has no siblings in the outline, so Enter there adds a child.
+      run(() => (rows[index].depth === 0 ? addNode(node.id) : addSibling(node.id)));
+    } else if (event.key === 'Tab') {
+      run(() => (event.shiftKey ? outdentNode(node.id) : indentNode(node.id)));
+    } else if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+      const siblingIds = getSiblingIds(nodes, edges, node.id);
+      run(() => moveSibling(node.id, siblingIds.indexOf(node.id) + (event.key === 'ArrowUp' ? -1 : 1)));
+    } else if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      focusRow(index + (event.key === 'ArrowUp' ? -1 : 1));
+    } else if (event.key === 'Backspace' && event.currentTarget.value === '' && node.id !== 'root') {
+      // Removing an emptied row keeps its children, one level up.
+      event.preventDefault();
+      const previous = rows[index - 1]?.node.id ?? null;
+      deleteNodes([node.id], 'reparent');
+      pendingFocus.current = previous;
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ x: -20, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: -20, opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className={cn('properties-panel w-80 p-4 max-h-[70vh] flex flex-col', className)}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-semibold text-foreground flex items-center gap-2">
+          <ListTree className="h-4 w-4" />
+          Outline
+        </h3>
+        <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Enter adds a node, Tab and Shift+Tab indent and outdent, Alt+Up and Alt+Down reorder.
+      </p>
+
+      <ol className="flex-1 overflow-y-auto -mx-1">
+        {rows.map((row, index) => (
+          <OutlineItem
+            key={row.node.id}
+            row={row}
+            selected={row.node.id === selectedNodeId}
+            inputRef={(input) => {
+              if (input) inputs.current.set(row.node.id, input);
+              else inputs.current.delete(row.node.id);
+            }}
+            onFocus={() => {
+              if (useMindMapStore.getState().selectedNodeId !== row.node.id) setSelectedNode(row.node.id);
+            }}
+            onRename={(label) => updateNodeData(row.node.id, { label })}
+            onToggle={() => toggleCollapse(row.node.id)}
+            onKeyDown={(event) => handleKeyDown(event, index)}
+          />
+        ))}
+      </ol>
+    </motion.div>
+  );
+}
+
+interface OutlineItemProps {
+  row: OutlineRow;
+  selected: boolean;
+  inputRef: (input: HTMLInputElement | null) => void;
+  onFocus: () => void;
+  onRename: (label: string) => void;
+  onToggle: () => void;
+  onKeyDown: (event: React.KeyboardEvent<HTMLInputElement>) => void;
+}
+
+function OutlineItem({ row, selected, inputRef, onFocus, onRename, onToggle, onKeyDown }: OutlineItemProps) {
+  const { node, depth, hasChildren } = row;
+  // The text being typed, which may be empty for a moment; the map only ever
+  // gets a non-empty label.
+  const [draft, setDraft] = useState(node.data.label);
+  const [isEditing, setIsEditing] = useState(false);
+  useEffect(() => {
+    if (!isEditing) setDraft(node.data.label);
+  }, [node.data.label, isEditing]);
+
+  return (
+    <li
+      className={cn('flex items-center gap-1 rounded-md pr-1', selected && 'bg-secondary')}
+      style={{ paddingLeft: depth * 16 + 4 }}
+    >
+      <button
+        onClick={onToggle}
+        className={cn('h-5 w-5 flex items-center justify-center text-muted-foreground shrink-0', !hasChildren && 'invisible')}
+        title={node.data.collapsed ? 'Expand' : 'Collapse'}
+        tabIndex={-1}
+      >
+        <ChevronRight className={cn('h-3.5 w-3.5 transition-transform', !node.data.collapsed && 'rotate-90')} />
+      </button>
+      <input
+        ref={inputRef}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (e.target.value.trim()) onRename(e.target.value.trim());
+        }}
+        onFocus={() => {
+          setIsEditing(true);
+          onFocus();
+        }}
+        onBlur={() => setIsEditing(false)}
+        onKeyDown={onKeyDown}
+        className="flex-1 min-w-0 bg-transparent py-1 text-sm text-foreground outline-none"
+      />
+    </li>
+  );
+}
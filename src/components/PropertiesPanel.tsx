@@ -1,13 +1,16 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Palette, Type, FileText, Image as ImageIcon, PaintBucket, Pipette, Plus, Trash2 } from 'lucide-react';
-import { useMindMapStore, NodeColor, TextColor, FontFamily, TextSize } from '@/store/mindMapStore';
+import { X, Palette, Type, FileText, Image as ImageIcon, PaintBucket, Pipette, Plus, Trash2, LayoutDashboard } from 'lucide-react';
+import type { Node } from 'reactflow';
+import { useMindMapStore, MindMapNodeData, NodeColor, TextColor, FontFamily, TextSize, LayoutKind } from '@/store/mindMapStore';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import { useDeleteNodes } from '@/hooks/use-delete-nodes';
+import { layoutOptions } from '@/lib/layout';
 
 const nodeColors: { value: NodeColor; label: string; class: string }[] = [
   { value: 'blue', label: 'Blue', class: 'bg-node-blue' },
@@ -59,17 +62,47 @@ interface PropertiesPanelProps {
   className?: string;
 }
 
+// The value of `key` across the selected nodes; `mixed` when they disagree.
+const sharedValue = <K extends keyof MindMapNodeData>(
+  nodes: Node<MindMapNodeData>[],
+  key: K,
+  fallback?: MindMapNodeData[K]
+) => {
+  const values = new Set(nodes.map((node) => node.data[key] ?? fallback));
+  return {
+    value: values.size === 1 ? [...values][0] : undefined,
+    mixed: values.size > 1,
+  };
+};
+
 export default function PropertiesPanel({ className }: PropertiesPanelProps) {
   const {
     nodes,
     selectedNodeId,
+    selectedNodeIds,
     updateNodeData,
+    updateNodesData,
     setSelectedNode,
+    setSubtreeLayout,
     addNode, // Use addNode instead of topic functions
-    addToHistory, // Import addToHistory
   } = useMindMapStore();
+  const deleteNodes = useDeleteNodes();
+
+  const selectedNodes = nodes.filter((n) => selectedNodeIds.includes(n.id));
+  const isMultiSelection = selectedNodes.length > 1;
+  // Label, description and image are edited one node at a time.
+  const selectedNode = isMultiSelection ? undefined : nodes.find((n) => n.id === selectedNodeId);
+  // Styling applies to every selected node.
+  const styledNodes = isMultiSelection ? selectedNodes : selectedNode ? [selectedNode] : [];
+  const styledNodeIds = styledNodes.map((n) => n.id);
+
+  const fontFamily = sharedValue(styledNodes, 'fontFamily', 'default');
+  const textSize = sharedValue(styledNodes, 'textSize', 'base');
+  const textColor = sharedValue(styledNodes, 'textColor');
+  const color = sharedValue(styledNodes, 'color');
+  const borderColor = sharedValue(styledNodes, 'borderColor');
+  const backgroundColor = sharedValue(styledNodes, 'backgroundColor');
 
-  const selectedNode = nodes.find((n) => n.id === selectedNodeId);
   const [label, setLabel] = useState('');
   const [description, setDescription] = useState('');
   const [imageUrl, setImageUrl] = useState('');
@@ -80,10 +113,13 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
       setLabel(selectedNode.data.label);
       setDescription(selectedNode.data.description || '');
       setImageUrl(selectedNode.data.imageUrl || '');
-      setCustomBgColor(selectedNode.data.backgroundColor || '');
     }
   }, [selectedNode]);
 
+  useEffect(() => {
+    setCustomBgColor(backgroundColor.value || '');
+  }, [backgroundColor.value]);
+
   const handleLabelChange = (value: string) => {
     setLabel(value);
     if (selectedNodeId) {
@@ -99,27 +135,19 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
   };
 
   const handleColorChange = (color: NodeColor) => {
-    if (selectedNodeId) {
-      updateNodeData(selectedNodeId, { color });
-    }
+    updateNodesData(styledNodeIds, { color });
   };
 
   const handleTextColorChange = (textColor: TextColor) => {
-    if (selectedNodeId) {
-      updateNodeData(selectedNodeId, { textColor });
-    }
+    updateNodesData(styledNodeIds, { textColor });
   };
 
   const handleFontFamilyChange = (fontFamily: FontFamily) => {
-    if (selectedNodeId) {
-      updateNodeData(selectedNodeId, { fontFamily });
-    }
+    updateNodesData(styledNodeIds, { fontFamily });
   };
 
   const handleTextSizeChange = (textSize: TextSize) => {
-    if (selectedNodeId) {
-      updateNodeData(selectedNodeId, { textSize });
-    }
+    updateNodesData(styledNodeIds, { textSize });
   };
 
   const handleImageUrlChange = (value: string) => {
@@ -131,8 +159,8 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
 
   const handleCustomBgColorChange = (value: string) => {
     setCustomBgColor(value);
-    if (selectedNodeId && value) {
-      updateNodeData(selectedNodeId, { backgroundColor: value });
+    if (value) {
+      updateNodesData(styledNodeIds, { backgroundColor: value });
     }
   };
 
@@ -140,11 +168,17 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
     setSelectedNode(null);
   };
 
+  const handleDeleteSelection = () => {
+    deleteNodes(selectedNodeIds);
+  };
+
   const isImageNode = selectedNode?.data.nodeType === 'image';
+  const subtreeLayout = selectedNode?.data.layoutType === 'structure' ? selectedNode.data.structure : undefined;
+  const deletableCount = selectedNodes.filter((n) => n.id !== 'root').length;
 
   return (
     <AnimatePresence>
-      {selectedNode && (
+      {styledNodes.length > 0 && (
         <motion.div
           initial={{ x: 20, opacity: 0 }}
           animate={{ x: 0, opacity: 1 }}
@@ -153,7 +187,9 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
           className={cn('properties-panel w-72 p-4 max-h-[80vh] overflow-y-auto', className)}
         >
           <div className="flex items-center justify-between mb-4">
-            <h3 className="font-semibold text-foreground">Properties</h3>
+            <h3 className="font-semibold text-foreground">
+              {isMultiSelection ? `${selectedNodes.length} nodes selected` : 'Properties'}
+            </h3>
             <Button variant="ghost" size="icon" onClick={handleClose} className="h-8 w-8">
               <X className="h-4 w-4" />
             </Button>
@@ -161,19 +197,20 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
 
           <div className="space-y-5">
             {/* Label */}
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2 text-muted-foreground">
-                <Type className="h-3.5 w-3.5" />
-                Label
-              </Label>
-              <Input
-                value={label}
-                onChange={(e) => handleLabelChange(e.target.value)}
-                onFocus={() => addToHistory()}
-                placeholder="Enter node label..."
-                className="bg-secondary/50"
-              />
-            </div>
+            {selectedNode && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2 text-muted-foreground">
+                  <Type className="h-3.5 w-3.5" />
+                  Label
+                </Label>
+                <Input
+                  value={label}
+                  onChange={(e) => handleLabelChange(e.target.value)}
+                  placeholder="Enter node label..."
+                  className="bg-secondary/50"
+                />
+              </div>
+            )}
 
             {/* Image URL (for image nodes) */}
             {isImageNode && (
@@ -185,7 +222,6 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
                 <Input
                   value={imageUrl}
                   onChange={(e) => handleImageUrlChange(e.target.value)}
-                  onFocus={() => addToHistory()}
                   placeholder="https://example.com/image.jpg"
                   className="bg-secondary/50"
                 />
@@ -193,7 +229,7 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
             )}
 
             {/* Description */}
-            {!isImageNode && (
+            {selectedNode && !isImageNode && (
               <div className="space-y-2">
                 <Label className="flex items-center gap-2 text-muted-foreground">
                   <FileText className="h-3.5 w-3.5" />
@@ -202,13 +238,40 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
                 <Textarea
                   value={description}
                   onChange={(e) => handleDescriptionChange(e.target.value)}
-                  onFocus={() => addToHistory()}
                   placeholder="Add a description..."
                   className="bg-secondary/50 resize-none h-20"
                 />
               </div>
             )}
 
+            {/* Subtree Layout (stacked nodes follow their list) */}
+            {selectedNode && selectedNode.data.layoutType !== 'stacked' && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2 text-muted-foreground">
+                  <LayoutDashboard className="h-3.5 w-3.5" />
+                  Branch Layout
+                </Label>
+                <Select
+                  value={subtreeLayout ?? 'inherit'}
+                  onValueChange={(value) =>
+                    setSubtreeLayout(selectedNode.id, value === 'inherit' ? null : (value as LayoutKind))
+                  }
+                >
+                  <SelectTrigger className="bg-secondary/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="inherit">Same as parent</SelectItem>
+                    {layoutOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Font Family */}
             <div className="space-y-2">
               <Label className="flex items-center gap-2 text-muted-foreground">
@@ -217,11 +280,11 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
               </Label>
               <div className="grid grid-cols-2 gap-2">
                 <Select
-                  value={selectedNode.data.fontFamily || 'default'}
+                  value={fontFamily.value ?? ''}
                   onValueChange={(value) => handleFontFamilyChange(value as FontFamily)}
                 >
                   <SelectTrigger className="bg-secondary/50">
-                    <SelectValue placeholder="Font" />
+                    <SelectValue placeholder={fontFamily.mixed ? 'Mixed' : 'Font'} />
                   </SelectTrigger>
                   <SelectContent>
                     {fontFamilies.map((font) => (
@@ -243,11 +306,11 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
                 </Select>
 
                 <Select
-                  value={selectedNode.data.textSize || 'base'}
+                  value={textSize.value ?? ''}
                   onValueChange={(value) => handleTextSizeChange(value as TextSize)}
                 >
                   <SelectTrigger className="bg-secondary/50">
-                    <SelectValue placeholder="Size" />
+                    <SelectValue placeholder={textSize.mixed ? 'Mixed' : 'Size'} />
                   </SelectTrigger>
                   <SelectContent>
                     {textSizes.map((size) => (
@@ -274,7 +337,7 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
                     className={cn(
                       'color-dot',
                       color.class,
-                      selectedNode.data.textColor === color.value && 'selected ring-foreground'
+                      textColor.value === color.value && 'selected ring-foreground'
                     )}
                     title={color.label}
                   />
@@ -289,38 +352,39 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
                 Border Color
               </Label>
               <div className="flex flex-wrap gap-2">
-                {nodeColors.map((color) => (
+                {nodeColors.map((preset) => (
                   <button
-                    key={color.value}
+                    key={preset.value}
                     onClick={() => {
                       // Clear custom border color when selecting a preset
-                      if (selectedNodeId) {
-                        updateNodeData(selectedNodeId, { color: color.value, borderColor: undefined });
-                      }
+                      updateNodesData(styledNodeIds, { color: preset.value, borderColor: undefined });
                     }}
                     className={cn(
                       'color-dot',
-                      color.class,
-                      selectedNode.data.color === color.value && !selectedNode.data.borderColor && !selectedNode.data.backgroundColor && 'selected ring-foreground'
+                      preset.class,
+                      color.value === preset.value &&
+                        !borderColor.mixed && !borderColor.value &&
+                        !backgroundColor.mixed && !backgroundColor.value &&
+                        'selected ring-foreground'
                     )}
-                    title={color.label}
+                    title={preset.label}
                   />
                 ))}
               </div>
               <div className="flex items-center gap-2 mt-2">
                 <input
                   type="color"
-                  value={selectedNode.data.borderColor || '#000000'}
-                  onChange={(e) => selectedNodeId && updateNodeData(selectedNodeId, { borderColor: e.target.value })}
+                  value={borderColor.value || '#000000'}
+                  onChange={(e) => updateNodesData(styledNodeIds, { borderColor: e.target.value })}
                   className="w-8 h-8 rounded cursor-pointer border border-border p-0"
                   title="Custom Border Color"
                 />
-                <span className="text-xs text-muted-foreground">Custom</span>
-                {selectedNode.data.borderColor && (
+                <span className="text-xs text-muted-foreground">{borderColor.mixed ? 'Mixed' : 'Custom'}</span>
+                {(borderColor.mixed || borderColor.value) && (
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => selectedNodeId && updateNodeData(selectedNodeId, { borderColor: undefined })}
+                    onClick={() => updateNodesData(styledNodeIds, { borderColor: undefined })}
                     className="h-6 px-2 text-[10px]"
                   >
                     Clear
@@ -345,18 +409,16 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
                 <Input
                   value={customBgColor}
                   onChange={(e) => handleCustomBgColorChange(e.target.value)}
-                  placeholder="#hex or transparent"
+                  placeholder={backgroundColor.mixed ? 'Mixed' : '#hex or transparent'}
                   className="bg-secondary/50 flex-1"
                 />
-                {customBgColor && (
+                {(customBgColor || backgroundColor.mixed) && (
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={() => {
                       setCustomBgColor('');
-                      if (selectedNodeId) {
-                        updateNodeData(selectedNodeId, { backgroundColor: undefined });
-                      }
+                      updateNodesData(styledNodeIds, { backgroundColor: undefined });
                     }}
                   >
                     Clear
@@ -366,7 +428,7 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
             </div>
 
             {/* Topics and Sub-topics */}
-            {!isImageNode && (
+            {selectedNode && !isImageNode && (
               <div className="space-y-3 pt-4 border-t border-border">
                 <div className="flex items-center justify-between">
                   <Label className="flex items-center gap-2 text-muted-foreground">
@@ -391,9 +453,22 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
           </div>
 
           <div className="mt-6 pt-4 border-t border-border">
-            <p className="text-xs text-muted-foreground">
-              {selectedNodeId === 'root' ? 'Root node' : `Node ID: ${selectedNodeId?.slice(0, 8)}...`}
-            </p>
+            {isMultiSelection ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDeleteSelection}
+                disabled={deletableCount === 0}
+                className="w-full text-destructive hover:text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 className="h-3.5 w-3.5 mr-1" />
+                Delete {deletableCount} {deletableCount === 1 ? 'node' : 'nodes'}
+              </Button>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {selectedNodeId === 'root' ? 'Root node' : `Node ID: ${selectedNodeId?.slice(0, 8)}...`}
+              </p>
+            )}
           </div>
         </motion.div>
       )}
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Bookmark, Clock, Copy, RotateCcw, Trash2 } from 'lucide-react';
+import { useMindMapStore, MapSnapshot } from '@/store/mindMapStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { toast } from '@/hooks/use-toast';
+
+interface SnapshotsDialogProps {
+  mapId: string;
+  mapName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function SnapshotsDialog({ mapId, mapName, open, onOpenChange }: SnapshotsDialogProps) {
+  const { listSnapshots, createCheckpoint, restoreSnapshot, restoreSnapshotAsCopy, deleteSnapshot } =
+    useMindMapStore();
+  const [snapshots, setSnapshots] = useState<MapSnapshot[]>([]);
+  const [checkpointName, setCheckpointName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setSnapshots(await listSnapshots(mapId));
+  }, [listSnapshots, mapId]);
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+    }
+  }, [open, refresh]);
+
+  // Runs a storage operation with the buttons disabled, then reloads the list.
+  const run = async (operation: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await operation();
+      await refresh();
+    } catch {
+      toast({
+        title: 'Something went wrong',
+        description: 'The version history could not be updated.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreateCheckpoint = () =>
+    run(async () => {
+      await createCheckpoint(mapId, checkpointName);
+      setCheckpointName('');
+      toast({ title: 'Checkpoint created' });
+    });
+
+  const handleRestore = (snapshot: MapSnapshot) =>
+    run(async () => {
+      await restoreSnapshot(snapshot.id);
+      toast({
+        title: 'Version restored',
+        description: `"${mapName}" now matches "${snapshot.name}".`,
+      });
+    });
+
+  const handleRestoreAsCopy = (snapshot: MapSnapshot) =>
+    run(async () => {
+      await restoreSnapshotAsCopy(snapshot.id);
+      toast({
+        title: 'Copy created',
+        description: 'The restored version was added to your library.',
+      });
+    });
+
+  const handleDelete = (snapshot: MapSnapshot) => run(() => deleteSnapshot(snapshot.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Versions of "{mapName}"</DialogTitle>
+          <DialogDescription>
+            Every save keeps the previous version. Checkpoints are kept until you delete them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !busy && handleCreateCheckpoint()}
+            placeholder="Checkpoint name, e.g. Before restructure"
+            className="flex-1"
+          />
+          <Button onClick={handleCreateCheckpoint} disabled={busy}>
+            <Bookmark className="h-4 w-4 mr-2" />
+            Create
+          </Button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No versions yet. Save the map or create a checkpoint.
+            </p>
+          ) : (
+            snapshots.map((snapshot) => (
+              <div
+                key={snapshot.id}
+                className="flex items-center gap-3 rounded-lg border border-border p-3"
+              >
+                {snapshot.kind === 'manual' ? (
+                  <Bookmark className="h-4 w-4 text-primary shrink-0" />
+                ) : (
+                  <Clock className="h-4 w-4 text-muted-foreground shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{snapshot.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(snapshot.createdAt)} • {snapshot.nodes.length} nodes
+                  </p>
+                </div>
+                <SnapshotAction label="Restore" disabled={busy} onClick={() => handleRestore(snapshot)}>
+                  <RotateCcw className="h-4 w-4" />
+                </SnapshotAction>
+                <SnapshotAction label="Restore as copy" disabled={busy} onClick={() => handleRestoreAsCopy(snapshot)}>
+                  <Copy className="h-4 w-4" />
+                </SnapshotAction>
+                <SnapshotAction label="Delete" disabled={busy} onClick={() => handleDelete(snapshot)}>
+                  <Trash2 className="h-4 w-4" />
+                </SnapshotAction>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SnapshotActionProps {
+  label: string;
+  disabled: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+function SnapshotAction({ label, disabled, onClick, children }: SnapshotActionProps) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" disabled={disabled} onClick={onClick}>
+          {children}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+}
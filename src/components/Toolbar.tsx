@@ -12,10 +12,19 @@ import {
   GitBranch,
   Home,
   Palette,
-  Minus
+  Minus,
+  MoreHorizontal,
+  Clock,
+  Network,
+  Share2,
+  Spline,
+  LayoutDashboard,
+  ChevronsDownUp,
+  Check
 } from 'lucide-react';
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { useMindMapStore, EdgeStyle, EdgeLineStyle } from '@/store/mindMapStore';
+import { useMindMapStore, EdgeStyle, EdgeLineStyle, LayoutKind } from '@/store/mindMapStore';
 import { Button } from '@/components/ui/button';
 import {
   Tooltip,
@@ -32,6 +41,15 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useReactFlow } from 'reactflow';
 import { toast } from '@/hooks/use-toast';
+import { useDeleteNodes } from '@/hooks/use-delete-nodes';
+import { useUnsavedChangesGuard } from '@/hooks/use-unsaved-changes-guard';
+import { failedImport, ImportResult } from '@/lib/document/import';
+import { exportFormats, importAccept, MapFormat } from '@/lib/document/formats';
+import { layoutOptions } from '@/lib/layout';
+import { getNodeDepths } from '@/lib/folding';
+import { getTreeError } from '@/lib/tree';
+import ImportResultDialog from './ImportResultDialog';
+import SnapshotsDialog from './SnapshotsDialog';
 
 interface ToolItem {
   icon: LucideIcon;
@@ -66,24 +84,45 @@ const edgeStyles: { value: EdgeStyle; label: string }[] = [
   { value: 'step', label: 'Step' },
 ];
 
+// The line style button steps through every style in turn.
+const NEXT_LINE_STYLE: Record<EdgeLineStyle, EdgeLineStyle> = { solid: 'dashed', dashed: 'dotted', dotted: 'solid' };
+const LINE_STYLE_LABELS: Record<EdgeLineStyle, string> = { solid: 'Solid', dashed: 'Dashed', dotted: 'Dotted' };
+
 export default function Toolbar({ className, onGoHome }: ToolbarProps) {
   const {
     selectedNodeId,
+    selectedNodeIds,
     addNode,
-    deleteNode,
     clearMap,
-    exportToJson,
-    importFromJson,
+    exportAs,
+    importFromFile,
     edgeStyle,
     setEdgeStyle,
     edgeColor,
     setEdgeColor,
     edgeLineStyle,
     setEdgeLineStyle,
+    graphMode,
+    setGraphMode,
+    layout,
+    setLayout,
+    nodes,
+    edges,
+    expandAll,
+    collapseAll,
+    showLevels,
+    connectionKind,
+    setConnectionKind,
     saveCurrentMap,
+    mapId,
+    mapName,
   } = useMindMapStore();
 
   const { zoomIn, zoomOut, fitView } = useReactFlow();
+  const deleteNodes = useDeleteNodes();
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const { guardUnsavedChanges, unsavedChangesDialog } = useUnsavedChangesGuard();
 
   const handleAddNode = () => {
     addNode(selectedNodeId || undefined, 'text');
@@ -101,75 +140,124 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
     });
   };
 
+  const deletableNodeIds = selectedNodeIds.filter((id) => id !== 'root');
+
   const handleDeleteNode = () => {
-    if (selectedNodeId && selectedNodeId !== 'root') {
-      deleteNode(selectedNodeId);
-      toast({
-        title: 'Node deleted',
-      });
-    }
+    deleteNodes(deletableNodeIds);
   };
 
-  const handleExport = () => {
-    const json = exportToJson();
-    const blob = new Blob([json], { type: 'application/json' });
+  const handleExport = (format: MapFormat) => {
+    const content = exportAs(format);
+    const blob = new Blob([content], { type: format.mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'mindmap.json';
+    a.download = `mindmap${format.extensions[0]}`;
     a.click();
     URL.revokeObjectURL(url);
     toast({
       title: 'Exported successfully',
-      description: 'Your mind map has been downloaded as JSON.',
+      description: `Your mind map has been downloaded as ${format.name}.`,
     });
   };
 
   const handleImport = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = importAccept;
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
+      if (!file) return;
+      // The picker opens first: asking would take it out of the user's click.
+      guardUnsavedChanges(() => {
         const reader = new FileReader();
         reader.onload = (event) => {
-          const json = event.target?.result as string;
-          importFromJson(json);
+          const text = event.target?.result as string;
+          let result: ImportResult;
+          try {
+            result = importFromFile(text, file.name);
+          } catch (error) {
+            setImportResult(failedImport(error));
+            return;
+          }
+          if (result.document) {
+            setTimeout(() => fitView({ padding: 0.2 }), 100);
+          }
+          if (result.errors.length || result.warnings.length || result.repairs.length) {
+            setImportResult(result);
+            return;
+          }
           toast({
             title: 'Imported successfully',
             description: 'Your mind map has been loaded.',
           });
-          setTimeout(() => fitView({ padding: 0.2 }), 100);
         };
         reader.readAsText(file);
-      }
+      });
     };
     input.click();
   };
 
-  const handleClear = () => {
+  const handleClear = () => guardUnsavedChanges(() => {
     clearMap();
     toast({
       title: 'Mind map cleared',
       description: 'Started fresh with a new central idea.',
     });
     setTimeout(() => fitView({ padding: 0.5 }), 100);
+  });
+
+  const handleSave = async () => {
+    try {
+      await saveCurrentMap();
+      toast({
+        title: 'Saved!',
+        description: 'Your mind map has been saved.',
+      });
+    } catch {
+      toast({
+        title: 'Save failed',
+        description: 'Your mind map could not be written to storage.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleGraphModeToggle = () => {
+    const mode = graphMode === 'tree' ? 'free' : 'tree';
+    if (!setGraphMode(mode)) {
+      toast({
+        title: 'Cannot switch to strict tree',
+        description: `${getTreeError(edges)} Remove the extra connections first.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({
+      title: mode === 'tree' ? 'Strict tree' : 'Free graph',
+      description: mode === 'tree'
+        ? 'Each node can have one parent, and connections cannot form loops.'
+        : 'Any two nodes can be connected.',
+    });
   };
 
-  const handleSave = () => {
-    saveCurrentMap();
+  const handleLayoutChange = (value: LayoutKind) => {
+    setLayout(value);
+    const option = layoutOptions.find((o) => o.value === value);
     toast({
-      title: 'Saved!',
-      description: 'Your mind map has been saved.',
+      title: `${option?.label} layout`,
+      description: option?.description,
     });
   };
 
+  // Levels below the roots; showing all of them is the same as expanding all.
+  const levelCount = Math.max(0, ...getNodeDepths(nodes, edges).values());
+
   const handleEdgeStyleChange = (style: EdgeStyle) => {
     setEdgeStyle(style);
     toast({
       title: 'Line style changed',
-      description: `Connections now use ${edgeStyles.find(s => s.value === style)?.label.toLowerCase()}.`,
+      description: `New connections will use ${edgeStyles.find(s => s.value === style)?.label.toLowerCase()}. Select a connection to restyle it.`,
     });
   };
 
@@ -188,7 +276,7 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={onGoHome}
+                onClick={() => guardUnsavedChanges(onGoHome)}
                 className="toolbar-button"
               >
                 <Home className="h-4 w-4" />
@@ -245,7 +333,7 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
             variant="ghost"
             size="icon"
             onClick={handleDeleteNode}
-            disabled={!selectedNodeId || selectedNodeId === 'root'}
+            disabled={deletableNodeIds.length === 0}
             className="toolbar-button"
           >
             <Trash2 className="h-4 w-4" />
@@ -259,6 +347,63 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
 
       <div className="w-px h-6 bg-border mx-1" />
 
+      {/* Layout Dropdown */}
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="toolbar-button">
+                <LayoutDashboard className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <span>Layout</span>
+          </TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent align="center">
+          <DropdownMenuLabel>Map Layout</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {layoutOptions.map((option) => (
+            <DropdownMenuItem key={option.value} onClick={() => handleLayoutChange(option.value)}>
+              <Check className={`h-4 w-4 mr-2 ${layout === option.value ? '' : 'invisible'}`} />
+              {option.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Folding Dropdown */}
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="toolbar-button">
+                <ChevronsDownUp className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <span>Folding</span>
+          </TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent align="center">
+          <DropdownMenuItem onClick={expandAll}>Expand All</DropdownMenuItem>
+          <DropdownMenuItem onClick={collapseAll}>Collapse All</DropdownMenuItem>
+          {levelCount > 1 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Show Levels</DropdownMenuLabel>
+              {Array.from({ length: levelCount - 1 }, (_, i) => i + 1).map((level) => (
+                <DropdownMenuItem key={level} onClick={() => showLevels(level)}>
+                  {level === 1 ? 'Level 1' : `Levels 1–${level}`}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
       {/* Edge Style Dropdown */}
       <DropdownMenu>
         <Tooltip>
@@ -274,7 +419,7 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
           </TooltipContent>
         </Tooltip>
         <DropdownMenuContent align="center">
-          <DropdownMenuLabel>Connection Style</DropdownMenuLabel>
+          <DropdownMenuLabel>New Connection Style</DropdownMenuLabel>
           <DropdownMenuSeparator />
           {edgeStyles.map((style) => (
             <DropdownMenuItem
@@ -303,7 +448,7 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
           </TooltipContent>
         </Tooltip>
         <DropdownMenuContent align="center">
-          <DropdownMenuLabel>Line Color</DropdownMenuLabel>
+          <DropdownMenuLabel>New Line Color</DropdownMenuLabel>
           <DropdownMenuSeparator />
           <div className="p-2">
             <input
@@ -341,24 +486,66 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
         </DropdownMenuContent>
       </DropdownMenu>
 
-      {/* Edge Line Style (Solid/Dashed) */}
+      {/* Edge Line Style (Solid/Dashed/Dotted) */}
       <Tooltip>
         <TooltipTrigger asChild>
           <Button
             variant="ghost"
             size="icon"
-            onClick={() => setEdgeLineStyle(edgeLineStyle === 'solid' ? 'dashed' : 'solid')}
+            onClick={() => setEdgeLineStyle(NEXT_LINE_STYLE[edgeLineStyle])}
             className="toolbar-button"
           >
             {edgeLineStyle === 'dashed' ? (
               <Minus className="h-4 w-4" />
+            ) : edgeLineStyle === 'dotted' ? (
+              <MoreHorizontal className="h-4 w-4" />
             ) : (
               <GitBranch className="h-4 w-4" />
             )}
           </Button>
         </TooltipTrigger>
         <TooltipContent side="bottom">
-          <span>{edgeLineStyle === 'solid' ? 'Solid' : 'Dashed'} Line</span>
+          <span>New Lines: {LINE_STYLE_LABELS[edgeLineStyle]}</span>
+        </TooltipContent>
+      </Tooltip>
+
+      {/* Connection Kind (Hierarchy/Relationship) */}
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant={connectionKind === 'relationship' ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => setConnectionKind(connectionKind === 'relationship' ? 'hierarchy' : 'relationship')}
+            className="toolbar-button"
+          >
+            <Spline className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">
+          <span>
+            {connectionKind === 'relationship' ? 'Drawing relationship links' : 'Draw Relationship Links'}
+          </span>
+        </TooltipContent>
+      </Tooltip>
+
+      {/* Graph Mode (Strict Tree/Free Graph) */}
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleGraphModeToggle}
+            className="toolbar-button"
+          >
+            {graphMode === 'tree' ? (
+              <Network className="h-4 w-4" />
+            ) : (
+              <Share2 className="h-4 w-4" />
+            )}
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">
+          <span>{graphMode === 'tree' ? 'Strict Tree' : 'Free Graph'}</span>
         </TooltipContent>
       </Tooltip>
 
@@ -435,23 +622,49 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
         </TooltipContent>
       </Tooltip>
 
-      {/* Export */}
+      {/* Versions */}
       <Tooltip>
         <TooltipTrigger asChild>
           <Button
             variant="ghost"
             size="icon"
-            onClick={handleExport}
+            onClick={() => setShowSnapshots(true)}
             className="toolbar-button"
           >
-            <Download className="h-4 w-4" />
+            <Clock className="h-4 w-4" />
           </Button>
         </TooltipTrigger>
         <TooltipContent side="bottom">
-          <span>Export JSON</span>
+          <span>Versions</span>
         </TooltipContent>
       </Tooltip>
 
+      {/* Export */}
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="toolbar-button">
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <span>Export</span>
+          </TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent align="center">
+          <DropdownMenuLabel>Export As</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {exportFormats.map((format) => (
+            <DropdownMenuItem key={format.name} onClick={() => handleExport(format)}>
+              {format.name}
+              <span className="ml-auto pl-4 text-xs text-muted-foreground">{format.extensions[0]}</span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
       {/* Import */}
       <Tooltip>
         <TooltipTrigger asChild>
@@ -465,7 +678,7 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
           </Button>
         </TooltipTrigger>
         <TooltipContent side="bottom">
-          <span>Import JSON</span>
+          <span>Import</span>
         </TooltipContent>
       </Tooltip>
 
@@ -485,6 +698,10 @@ export default function Toolbar({ className, onGoHome }: ToolbarProps) {
           <span>Clear Map</span>
         </TooltipContent>
       </Tooltip>
+
+      <ImportResultDialog result={importResult} onClose={() => setImportResult(null)} />
+      <SnapshotsDialog mapId={mapId} mapName={mapName} open={showSnapshots} onOpenChange={setShowSnapshots} />
+      {unsavedChangesDialog}
     </motion.div>
   );
 }
@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface UnsavedChangesDialogProps {
+  open: boolean;
+  mapName: string;
+  onSave: () => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asked before leaving a map whose latest changes are not in the library yet.
+ * Discarding reverts the map to its last saved version.
+ */
+export default function UnsavedChangesDialog({
+  open,
+  mapName,
+  onSave,
+  onDiscard,
+  onCancel,
+}: UnsavedChangesDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Save changes to "{mapName}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Some of your latest changes have not been saved yet.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={onDiscard} className="text-destructive hover:text-destructive">
+            Discard
+          </Button>
+          <Button onClick={onSave}>Save</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
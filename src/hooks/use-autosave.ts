@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { useMindMapStore } from '@/store/mindMapStore';
+import { toast } from '@/hooks/use-toast';
+
+// How long editing has to pause before the map is written to the library.
+const AUTOSAVE_DELAY_MS = 2000;
+
+/**
+ * Saves the open map shortly after it stops changing, and asks the browser to
+ * confirm leaving the page while changes are still unsaved.
+ */
+export function useAutosave() {
+  const isDirty = useMindMapStore((state) => state.isDirty);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const save = () => {
+      useMindMapStore
+        .getState()
+        .saveCurrentMap({ autosave: true })
+        .catch(() =>
+          toast({
+            title: 'Autosave failed',
+            description: 'Your changes could not be written to storage.',
+            variant: 'destructive',
+          })
+        );
+    };
+
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    };
+
+    const unsubscribe = useMindMapStore.subscribe((state, previous) => {
+      if (!state.isDirty) return;
+      if (
+        !previous.isDirty ||
+        state.nodes !== previous.nodes ||
+        state.edges !== previous.edges ||
+        state.mapName !== previous.mapName
+      ) {
+        schedule();
+      }
+    });
+
+    // Changes restored from the last session are saved too.
+    if (useMindMapStore.getState().isDirty) {
+      schedule();
+    }
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+}
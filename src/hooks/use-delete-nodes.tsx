@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { useMindMapStore, DeleteMode } from '@/store/mindMapStore';
+import { ToastAction } from '@/components/ui/toast';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * Deletes nodes and reports it in a toast that can undo the deletion, so an
+ * accidental branch delete is one click away from being reverted.
+ */
+export function useDeleteNodes() {
+  const deleteNodes = useMindMapStore((state) => state.deleteNodes);
+  const undo = useMindMapStore((state) => state.undo);
+
+  return useCallback(
+    (nodeIds: string[], mode: DeleteMode = 'subtree') => {
+      const count = deleteNodes(nodeIds, mode);
+      if (count === 0) return;
+
+      // The toast may be clicked after other edits; it only ever undoes this
+      // deletion, and only while nothing has been done since.
+      const { past } = useMindMapStore.getState();
+      const entry = past[past.length - 1];
+      const undoDelete = () => {
+        const { past: current } = useMindMapStore.getState();
+        if (current[current.length - 1] === entry) {
+          undo();
+          return;
+        }
+        toast({
+          title: 'Delete cannot be undone here',
+          description: 'The map has changed since. Use the history panel to go back further.',
+        });
+      };
+
+      toast({
+        title: count === 1 ? 'Node deleted' : `${count} nodes deleted`,
+        description: mode === 'reparent' ? 'Its children were moved up a level.' : undefined,
+        action: (
+          <ToastAction altText="Undo delete" onClick={undoDelete}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    [deleteNodes, undo]
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { useMindMapStore } from '@/store/mindMapStore';
+import { toast } from '@/hooks/use-toast';
+import UnsavedChangesDialog from '@/components/UnsavedChangesDialog';
+
+/**
+ * Asks what to do with the open map's unsaved changes before an action
+ * replaces it. Render `unsavedChangesDialog` next to the component's other
+ * dialogs.
+ */
+export function useUnsavedChangesGuard() {
+  const isDirty = useMindMapStore((state) => state.isDirty);
+  const mapName = useMindMapStore((state) => state.mapName);
+  const saveCurrentMap = useMindMapStore((state) => state.saveCurrentMap);
+  const discardChanges = useMindMapStore((state) => state.discardChanges);
+  // Action waiting for the user to save or discard unsaved changes.
+  const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
+
+  // Runs `action` right away, or after asking what to do with unsaved changes.
+  const guardUnsavedChanges = (action: () => void) => {
+    if (isDirty) {
+      setPendingAction(() => action);
+    } else {
+      action();
+    }
+  };
+
+  const handleSaveAndContinue = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    try {
+      await saveCurrentMap();
+      action?.();
+    } catch {
+      toast({
+        title: 'Save failed',
+        description: 'Your mind map could not be written to storage.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDiscardAndContinue = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    await discardChanges();
+    action?.();
+  };
+
+  const unsavedChangesDialog = (
+    <UnsavedChangesDialog
+      open={!!pendingAction}
+      mapName={mapName}
+      onSave={handleSaveAndContinue}
+      onDiscard={handleDiscardAndContinue}
+      onCancel={() => setPendingAction(null)}
+    />
+  );
+
+  return { guardUnsavedChanges, unsavedChangesDialog };
+}
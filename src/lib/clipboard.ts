@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import type { Node, Edge } from 'reactflow';
+import type { MindMapNodeData } from '@/store/mindMapStore';
+import { nodeSchema, edgeSchema, objectSchema } from '@/lib/document/schema';
+import { getDescendantIds, isHierarchyEdge, isRelationshipEdge } from '@/lib/tree';
+
+// Marks clipboard text as a copied branch so pasting ordinary text is ignored.
+const FRAGMENT_FORMAT = 'mindflow/fragment';
+// Fallback for browsers that refuse clipboard access. localStorage is shared
+// by every tab of the app, so copy and paste still work across tabs.
+const FALLBACK_KEY = 'mindflow-clipboard';
+
+/**
+ * Copied nodes with every descendant and the edges between them. `rootIds`
+ * are the copied nodes whose parent was not copied; a paste attaches them to
+ * the target node.
+ */
+export interface ClipboardFragment {
+  format: typeof FRAGMENT_FORMAT;
+  nodes: Node<MindMapNodeData>[];
+  edges: Edge[];
+  rootIds: string[];
+}
+
+const fragmentSchema = objectSchema<ClipboardFragment>({
+  format: z.literal(FRAGMENT_FORMAT),
+  nodes: z.array(nodeSchema),
+  edges: z.array(edgeSchema),
+  rootIds: z.array(z.string()),
+});
+
+export const createFragment = (
+  nodes: Node<MindMapNodeData>[],
+  edges: Edge[],
+  selectedIds: string[]
+): ClipboardFragment | null => {
+  const ids = getDescendantIds(edges, selectedIds);
+  const copiedNodes = nodes.filter((node) => ids.has(node.id));
+  if (copiedNodes.length === 0) return null;
+
+  const copiedEdges = edges.filter((edge) => ids.has(edge.source) && ids.has(edge.target));
+  const hasCopiedParent = new Set(copiedEdges.filter(isHierarchyEdge).map((edge) => edge.target));
+
+  return {
+    format: FRAGMENT_FORMAT,
+    // Drop transient React Flow state, as exports do.
+    nodes: copiedNodes.map(({ selected, dragging, positionAbsolute, ...node }) => node),
+    edges: copiedEdges.map(({ selected, ...edge }) => edge),
+    rootIds: copiedNodes.filter((node) => !hasCopiedParent.has(node.id)).map((node) => node.id),
+  };
+};
+
+export const parseFragment = (text: string): ClipboardFragment | null => {
+  try {
+    const result = fragmentSchema.safeParse(JSON.parse(text));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Gives every node, edge, topic and sub-topic of `fragment` a fresh id so it
+ * can be pasted any number of times, into any map.
+ */
+export const remapFragment = (fragment: ClipboardFragment, createNodeId: () => string): ClipboardFragment => {
+  const nodeIds = new Map(fragment.nodes.map((node) => [node.id, createNodeId()]));
+
+  return {
+    format: FRAGMENT_FORMAT,
+    nodes: fragment.nodes.map((node) => ({
+      ...node,
+      id: nodeIds.get(node.id)!,
+      data: {
+        ...node.data,
+        topics: node.data.topics?.map((topic) => ({
+          ...topic,
+          id: generateId('topic'),
+          subTopics: topic.subTopics.map((subTopic) => ({ ...subTopic, id: generateId('subtopic') })),
+        })),
+      },
+    })),
+    edges: fragment.edges.map((edge) => {
+      const source = nodeIds.get(edge.source)!;
+      const target = nodeIds.get(edge.target)!;
+      // A pair has one tree edge but may have any number of relationship links.
+      const id = isRelationshipEdge(edge) ? generateId('link') : `edge-${source}-${target}`;
+      return { ...edge, id, source, target };
+    }),
+    rootIds: fragment.rootIds.map((id) => nodeIds.get(id)!),
+  };
+};
+
+export const writeClipboard = async (fragment: ClipboardFragment) => {
+  const text = JSON.stringify(fragment);
+  localStorage.setItem(FALLBACK_KEY, text);
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    // Clipboard access denied; the fallback copy is enough within this app.
+  }
+};
+
+/**
+ * Reads a copied branch. The system clipboard wins when it can be read, so
+ * text copied elsewhere afterwards is never replaced by an older branch.
+ */
+export const readClipboard = async (): Promise<ClipboardFragment | null> => {
+  try {
+    return parseFragment(await navigator.clipboard.readText());
+  } catch {
+    const text = localStorage.getItem(FALLBACK_KEY);
+    return text ? parseFragment(text) : null;
+  }
+};
@@ -0,0 +1,67 @@
+import { importDocument, ImportResult, rejectedImport } from './import';
+import { importFreeMind, exportFreeMind } from './freemind';
+import { importMarkdown, exportMarkdown } from './markdown';
+import { importOpml, exportOpml } from './opml';
+import { DocumentInput, serializeDocument } from './serialize';
+
+/** A file format maps can be imported from and, if it has `write`, exported to. */
+export interface MapFormat {
+  name: string;
+  /** Lower-case file extensions, the first one used for exports. */
+  extensions: string[];
+  mimeType: string;
+  /** Never throws: a file that cannot be read is described by the result. */
+  read: (text: string, fileName: string) => ImportResult;
+  write?: (input: DocumentInput) => string;
+}
+
+export const jsonFormat: MapFormat = {
+  name: 'JSON',
+  extensions: ['.json'],
+  mimeType: 'application/json',
+  read: (text) => importDocument(text),
+  write: serializeDocument,
+};
+
+export const markdownFormat: MapFormat = {
+  name: 'Markdown',
+  extensions: ['.md', '.markdown'],
+  mimeType: 'text/markdown',
+  read: importMarkdown,
+  write: exportMarkdown,
+};
+
+export const opmlFormat: MapFormat = {
+  name: 'OPML',
+  extensions: ['.opml'],
+  mimeType: 'text/x-opml',
+  read: importOpml,
+  write: exportOpml,
+};
+
+export const freeMindFormat: MapFormat = {
+  name: 'FreeMind',
+  extensions: ['.mm'],
+  mimeType: 'application/x-freemind',
+  read: importFreeMind,
+  write: exportFreeMind,
+};
+
+export const mapFormats: MapFormat[] = [jsonFormat, markdownFormat, opmlFormat, freeMindFormat];
+
+export const exportFormats = mapFormats.filter((format) => format.write);
+
+/** The `accept` list for file inputs that take any supported format. */
+export const importAccept = mapFormats.flatMap((format) => format.extensions).join(',');
+
+export const getFormatForFile = (fileName: string) =>
+  mapFormats.find((format) => format.extensions.some((extension) => fileName.toLowerCase().endsWith(extension)));
+
+/** Reads a file in whichever format its name says it is in. */
+export const importFile = (text: string, fileName: string): ImportResult => {
+  const format = getFormatForFile(fileName);
+  if (!format) {
+    return rejectedImport(`Files of this type cannot be imported. Supported: ${importAccept.replace(/,/g, ', ')}.`);
+  }
+  return format.read(text, fileName);
+};
@@ -0,0 +1,266 @@
+import type { Edge, Node } from 'reactflow';
+import type { MindMapNodeData, TextColor } from '@/store/mindMapStore';
+import { DEFAULT_EDGE_COLOR, DEFAULT_EDGE_WIDTH, relationshipEdgeDefaults } from '@/lib/edges';
+import { getOrderedChildMap, isHierarchyEdge, isRelationshipEdge } from '@/lib/tree';
+import { ImportResult, rejectedImport } from './import';
+import { createDocument, DocumentInput } from './serialize';
+import { childElements, escapeXml, parseXml } from './xml';
+
+// FreeMind and Freeplane maps (.mm). Nested `<node>` elements are the tree;
+// `POSITION` pins a main branch to a side of the root, `COLOR` is the text
+// color, `BACKGROUND_COLOR` the fill, `<richcontent>` notes the description
+// and `<arrowlink>` elements are relationship links. Everything else that
+// FreeMind knows about (icons, fonts, clouds, attributes) is left out.
+
+// The hex values of our text colors in the light theme. FreeMind's text colors
+// are any hex value and open as the closest of these.
+const TEXT_COLOR_HEX: Record<Exclude<TextColor, 'default'>, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  blue: '#3b82f6',
+  purple: '#7c3aed',
+  green: '#16a34a',
+  orange: '#f97316',
+  pink: '#ec4899',
+  teal: '#0d9488',
+  red: '#ef4444',
+};
+
+// FreeMind writes its default text color on every node; it stays the theme's.
+const DEFAULT_TEXT_HEX = '#000000';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const toRgb = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+const closestTextColor = (hex: string): TextColor | undefined => {
+  if (!HEX_COLOR.test(hex) || hex.toLowerCase() === DEFAULT_TEXT_HEX) return undefined;
+  const rgb = toRgb(hex);
+  const distance = (other: string) => toRgb(other).reduce((sum, value, i) => sum + (value - rgb[i]) ** 2, 0);
+  return (Object.keys(TEXT_COLOR_HEX) as (keyof typeof TEXT_COLOR_HEX)[]).reduce((best, color) =>
+    distance(TEXT_COLOR_HEX[color]) < distance(TEXT_COLOR_HEX[best]) ? color : best
+  );
+};
+
+// Elements after which rich text starts a new paragraph, or just a new line.
+const PARAGRAPH_ELEMENTS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'table', 'blockquote', 'pre']);
+const LINE_ELEMENTS = new Set(['div', 'li', 'tr']);
+
+// The plain text of a `<richcontent>` element, which holds XHTML.
+const richTextToPlain = (element: Element): string => {
+  let text = '';
+  const breakLine = (count: number) => {
+    const trailing = /\n*$/.exec(text)![0].length;
+    if (text && trailing < count) text += '\n'.repeat(count - trailing);
+  };
+  const visit = (node: ChildNode) => {
+    if (node.nodeType === node.TEXT_NODE) {
+      const value = (node.textContent ?? '').replace(/\s+/g, ' ');
+      if (value.trim() || (text && !text.endsWith('\n'))) text += value;
+      return;
+    }
+    if (node.nodeType !== node.ELEMENT_NODE) return;
+    const name = (node as Element).localName.toLowerCase();
+    if (name === 'head') return;
+    if (name === 'br') {
+      text += '\n';
+      return;
+    }
+    const breaks = PARAGRAPH_ELEMENTS.has(name) ? 2 : LINE_ELEMENTS.has(name) ? 1 : 0;
+    breakLine(breaks);
+    node.childNodes.forEach(visit);
+    breakLine(breaks);
+  };
+  visit(element);
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const readRichContent = (element: Element, type: string) =>
+  childElements(element, 'richcontent')
+    .filter((content) => content.getAttribute('TYPE') === type)
+    .map(richTextToPlain)
+    .filter(Boolean)
+    .join('\n\n');
+
+/** Reads a FreeMind or Freeplane map as a new map. Never throws. */
+export const importFreeMind = (text: string, fileName: string): ImportResult => {
+  const xml = parseXml(text);
+  if (!xml) {
+    return rejectedImport('The file is not valid XML.');
+  }
+  const map = xml.documentElement;
+  if (map.localName !== 'map') {
+    return rejectedImport('The file is not a FreeMind map.');
+  }
+  const rootElements = childElements(map, 'node');
+  if (rootElements.length === 0) {
+    return rejectedImport('The map is empty.');
+  }
+
+  const nodes: Node<MindMapNodeData>[] = [];
+  const edges: Edge[] = [];
+  const warnings: string[] = [];
+  // FreeMind ids to ours, and the links to resolve once every node has one.
+  const nodeIds = new Map<string, string>();
+  const links: { source: string; destination: string }[] = [];
+
+  const addEdge = (source: string, target: string) => {
+    edges.push({
+      id: `edge-${source}-${target}`,
+      source,
+      target,
+      type: 'bezier',
+      style: { strokeWidth: DEFAULT_EDGE_WIDTH, stroke: DEFAULT_EDGE_COLOR },
+    });
+  };
+
+  const add = (element: Element, parentId: string | null) => {
+    const id = nodes.length === 0 ? 'root' : `imported-${nodes.length}`;
+    const label =
+      element.getAttribute('TEXT') ?? (readRichContent(element, 'NODE') || element.getAttribute('LOCALIZED_TEXT'));
+    const data: MindMapNodeData = { label: label?.trim() || 'Untitled', color: 'blue', nodeType: 'text' };
+    const description = [readRichContent(element, 'DETAILS'), readRichContent(element, 'NOTE')]
+      .filter(Boolean)
+      .join('\n\n');
+    if (description) data.description = description;
+    const position = element.getAttribute('POSITION');
+    if (position === 'left' || position === 'right') data.side = position;
+    const textColor = closestTextColor(element.getAttribute('COLOR') ?? '');
+    if (textColor) data.textColor = textColor;
+    const background = element.getAttribute('BACKGROUND_COLOR') ?? '';
+    if (HEX_COLOR.test(background)) data.backgroundColor = background.toLowerCase();
+    if (element.getAttribute('FOLDED') === 'true') data.collapsed = true;
+
+    nodes.push({ id, type: 'mindMapNode', position: { x: 0, y: 0 }, data });
+    if (parentId) addEdge(parentId, id);
+    const freeMindId = element.getAttribute('ID');
+    if (freeMindId) nodeIds.set(freeMindId, id);
+    childElements(element, 'arrowlink').forEach((link) => {
+      links.push({ source: id, destination: link.getAttribute('DESTINATION') ?? '' });
+    });
+    childElements(element, 'node').forEach((child) => add(child, id));
+  };
+
+  const name = fileName.replace(/\.[^.]+$/, '') || 'Imported Mind Map';
+  if (rootElements.length === 1) {
+    add(rootElements[0], null);
+  } else {
+    const data: MindMapNodeData = { label: name, color: 'blue', nodeType: 'text' };
+    nodes.push({ id: 'root', type: 'mindMapNode', position: { x: 0, y: 0 }, data });
+    rootElements.forEach((element) => add(element, 'root'));
+    warnings.push(`The ${rootElements.length} top-level nodes were placed under a central idea named after the file.`);
+  }
+
+  let missingLinks = 0;
+  const linked = new Set<string>();
+  links.forEach(({ source, destination }) => {
+    const target = nodeIds.get(destination);
+    if (!target) {
+      missingLinks += 1;
+      return;
+    }
+    const id = `link-${source}-${target}`;
+    if (linked.has(id)) return;
+    linked.add(id);
+    edges.push({ ...relationshipEdgeDefaults, id, source, target });
+  });
+  if (missingLinks > 0) {
+    warnings.push(`${missingLinks} link${missingLinks === 1 ? '' : 's'} to nodes that are not in the file were left out.`);
+  }
+
+  const doc = createDocument({
+    map: { id: '', name: nodes[0].data.label },
+    settings: {
+      edgeStyle: 'bezier',
+      edgeColor: DEFAULT_EDGE_COLOR,
+      edgeLineStyle: 'solid',
+      graphMode: 'tree',
+      layout: 'balanced',
+    },
+    nodes,
+    edges,
+  });
+  return { document: doc, errors: [], warnings, repairs: [] };
+};
+
+// A description as XHTML: paragraphs at blank lines, line breaks within them.
+const toRichText = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${paragraph.split('\n').map(escapeXml).join('<br/>')}</p>`)
+    .join('');
+
+/**
+ * Writes the map as a FreeMind map, which has a single root: a map with
+ * several trees gets a root named after the map. Topics are written as the
+ * first children of their node.
+ */
+export const exportFreeMind = ({ map, nodes, edges }: DocumentInput): string => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const childIds = getOrderedChildMap(nodes, edges);
+  const hasParent = new Set(edges.filter(isHierarchyEdge).map((edge) => edge.target));
+  const freeMindIds = new Map(nodes.map((node, i) => [node.id, `ID_${i + 1}`]));
+  const visited = new Set<string>();
+  const lines = ['<map version="1.0.1">'];
+
+  const writeNode = (attributes: string[], depth: number, content: string[], writeChildren: () => void) => {
+    const indent = '  '.repeat(depth + 1);
+    const start = lines.length;
+    lines.push(`${indent}<node ${attributes.join(' ')}>`);
+    content.forEach((line) => lines.push(`${indent}  ${line}`));
+    writeChildren();
+    if (lines.length === start + 1) lines[start] = `${indent}<node ${attributes.join(' ')}/>`;
+    else lines.push(`${indent}</node>`);
+  };
+
+  const write = (node: Node<MindMapNodeData>, depth: number, side?: 'left' | 'right') => {
+    visited.add(node.id);
+    const { data } = node;
+    const attributes = [`TEXT="${escapeXml(data.label)}"`, `ID="${freeMindIds.get(node.id)}"`];
+    if (side) attributes.push(`POSITION="${side}"`);
+    if (data.collapsed) attributes.push('FOLDED="true"');
+    if (data.textColor && data.textColor !== 'default') attributes.push(`COLOR="${TEXT_COLOR_HEX[data.textColor]}"`);
+    if (data.backgroundColor && HEX_COLOR.test(data.backgroundColor)) {
+      attributes.push(`BACKGROUND_COLOR="${data.backgroundColor}"`);
+    }
+
+    const content: string[] = [];
+    if (data.description) {
+      content.push(`<richcontent TYPE="NOTE"><html><head/><body>${toRichText(data.description)}</body></html></richcontent>`);
+    }
+    edges
+      .filter((edge) => isRelationshipEdge(edge) && edge.source === node.id && freeMindIds.has(edge.target))
+      .forEach((edge) => {
+        content.push(`<arrowlink DESTINATION="${freeMindIds.get(edge.target)}" STARTARROW="None" ENDARROW="Default"/>`);
+      });
+    (data.topics ?? []).forEach((topic) => {
+      content.push(`<node TEXT="${escapeXml(topic.label)}">`);
+      topic.subTopics.forEach((subTopic) => content.push(`  <node TEXT="${escapeXml(subTopic.label)}"/>`));
+      content.push('</node>');
+    });
+
+    writeNode(attributes, depth, content, () => {
+      (childIds.get(node.id) ?? []).forEach((childId) => {
+        const child = byId.get(childId);
+        if (!child || visited.has(childId)) return;
+        // FreeMind only places the root's branches, by their side.
+        const childSide = child.data.side ?? (child.position.x < node.position.x ? 'left' : 'right');
+        write(child, depth + 1, depth === 0 ? childSide : undefined);
+      });
+    });
+  };
+
+  const roots = nodes.filter((node) => !hasParent.has(node.id));
+  if (roots.length === 1) {
+    write(roots[0], 0);
+  } else {
+    writeNode([`TEXT="${escapeXml(map.name)}"`], 0, [], () => roots.forEach((root) => write(root, 1)));
+  }
+  lines.push('</map>');
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,187 @@
+import { mindMapDocumentSchema, MindMapDocument, CURRENT_FORMAT_VERSION } from './schema';
+import { migrateDocument, getFormatVersion } from './migrations';
+
+export interface ImportResult {
+  /** The imported document, or null when the file was rejected. */
+  document: MindMapDocument | null;
+  /** Problems that prevented the import. */
+  errors: string[];
+  /** Things the user should know about that did not change the content. */
+  warnings: string[];
+  /** Fixes applied to the content so that it could be loaded. */
+  repairs: string[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const NODE_COLORS = ['blue', 'purple', 'green', 'orange', 'pink', 'teal', 'yellow', 'gray', 'transparent'];
+const TEXT_COLORS = ['default', 'white', 'black', 'blue', 'purple', 'green', 'orange', 'pink', 'teal', 'red'];
+const FONT_FAMILIES = ['default', 'serif', 'mono', 'handwriting', 'modern', 'slab', 'condensed', 'marker'];
+const TEXT_SIZES = ['xs', 'sm', 'base', 'lg', 'xl', '2xl', '3xl'];
+
+const isRecord = (value: unknown): value is RawRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const rejectedImport = (error: string): ImportResult => ({
+  document: null,
+  errors: [error],
+  warnings: [],
+  repairs: [],
+});
+
+/** The result to show when reading or saving an imported file failed unexpectedly. */
+export const failedImport = (error: unknown): ImportResult =>
+  rejectedImport(`The file could not be imported: ${error instanceof Error ? error.message : String(error)}`);
+
+/**
+ * Fixes the problems we know how to fix without losing user content. Runs on
+ * the migrated but not yet validated document.
+ */
+const repairDocument = (doc: RawRecord, repairs: string[]): RawRecord => {
+  if (!Array.isArray(doc.nodes) || !Array.isArray(doc.edges)) {
+    return doc;
+  }
+
+  const seenIds = new Set<string>();
+  let droppedNodes = 0;
+  let missingLabels = 0;
+  let unknownColors = 0;
+  let unknownTextColors = 0;
+  let unknownFonts = 0;
+  let unknownTextSizes = 0;
+  let missingPositions = 0;
+
+  const nodes = doc.nodes.flatMap((raw): RawRecord[] => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || seenIds.has(raw.id)) {
+      droppedNodes += 1;
+      return [];
+    }
+    seenIds.add(raw.id);
+
+    const data: RawRecord = isRecord(raw.data) ? { ...raw.data } : {};
+
+    if (typeof data.label !== 'string') {
+      data.label = 'Untitled';
+      missingLabels += 1;
+    }
+    if (typeof data.color !== 'string' || !NODE_COLORS.includes(data.color)) {
+      data.color = 'blue';
+      unknownColors += 1;
+    }
+    if (data.textColor !== undefined && !TEXT_COLORS.includes(data.textColor as string)) {
+      delete data.textColor;
+      unknownTextColors += 1;
+    }
+    if (data.fontFamily !== undefined && !FONT_FAMILIES.includes(data.fontFamily as string)) {
+      delete data.fontFamily;
+      unknownFonts += 1;
+    }
+    if (data.textSize !== undefined && !TEXT_SIZES.includes(data.textSize as string)) {
+      delete data.textSize;
+      unknownTextSizes += 1;
+    }
+
+    let position = raw.position;
+    if (!isRecord(position) || typeof position.x !== 'number' || typeof position.y !== 'number') {
+      position = { x: 0, y: 0 };
+      missingPositions += 1;
+    }
+
+    return [{ ...raw, position, data }];
+  });
+
+  const seenEdgeIds = new Set<string>();
+  let malformedEdges = 0;
+  let duplicateEdges = 0;
+  let danglingEdges = 0;
+
+  const edges = doc.edges.filter((raw) => {
+    if (
+      !isRecord(raw) ||
+      typeof raw.id !== 'string' ||
+      typeof raw.source !== 'string' ||
+      typeof raw.target !== 'string'
+    ) {
+      malformedEdges += 1;
+      return false;
+    }
+    if (seenEdgeIds.has(raw.id)) {
+      duplicateEdges += 1;
+      return false;
+    }
+    if (!seenIds.has(raw.source) || !seenIds.has(raw.target)) {
+      danglingEdges += 1;
+      return false;
+    }
+    seenEdgeIds.add(raw.id);
+    return true;
+  });
+
+  if (droppedNodes) repairs.push(`Removed ${plural(droppedNodes, 'node')} without a valid or unique id.`);
+  if (malformedEdges) repairs.push(`Removed ${plural(malformedEdges, 'connection')} without a valid id, source or target.`);
+  if (duplicateEdges) repairs.push(`Removed ${plural(duplicateEdges, 'connection')} with the same id as an earlier one.`);
+  if (danglingEdges) repairs.push(`Removed ${plural(danglingEdges, 'connection')} pointing to missing nodes.`);
+  if (missingLabels) repairs.push(`Gave ${plural(missingLabels, 'node')} without a label the label "Untitled".`);
+  if (unknownColors) repairs.push(`Reset ${plural(unknownColors, 'node')} with an unknown color to blue.`);
+  if (unknownTextColors) repairs.push(`Reset ${plural(unknownTextColors, 'node')} with an unknown text color to the default.`);
+  if (unknownFonts) repairs.push(`Reset ${plural(unknownFonts, 'node')} with an unknown font to the default.`);
+  if (unknownTextSizes) repairs.push(`Reset ${plural(unknownTextSizes, 'node')} with an unknown text size to the default.`);
+  if (missingPositions) repairs.push(`Moved ${plural(missingPositions, 'node')} without a position to the origin.`);
+
+  return { ...doc, nodes, edges };
+};
+
+/**
+ * Reads a JSON mind map of any supported format version. Never throws: every
+ * outcome, including rejection, is described by the returned result.
+ */
+export const importDocument = (json: string): ImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return rejectedImport('The file is not valid JSON.');
+  }
+
+  if (!isRecord(raw) || !Array.isArray(raw.nodes) || !Array.isArray(raw.edges)) {
+    return rejectedImport('The file does not contain a mind map (missing "nodes" or "edges").');
+  }
+
+  const warnings: string[] = [];
+  const repairs: string[] = [];
+
+  const version = getFormatVersion(raw);
+  let migrated: RawRecord;
+  try {
+    migrated = migrateDocument(raw);
+  } catch (e) {
+    return rejectedImport(e instanceof Error ? e.message : String(e));
+  }
+  if (version < CURRENT_FORMAT_VERSION) {
+    warnings.push(`The file uses an older format (v${version}) and was upgraded to v${CURRENT_FORMAT_VERSION}.`);
+  }
+
+  const repaired = repairDocument(migrated, repairs);
+  const result = mindMapDocumentSchema.safeParse(repaired);
+
+  if (!result.success) {
+    return {
+      document: null,
+      errors: result.error.issues.slice(0, 5).map((issue) => {
+        const path = issue.path.join('.');
+        return path ? `Invalid value at "${path}": ${issue.message}` : issue.message;
+      }),
+      warnings,
+      repairs,
+    };
+  }
+
+  const document = result.data;
+  if (document.nodes.length === 0) {
+    warnings.push('The map does not contain any nodes.');
+  }
+
+  return { document, errors: [], warnings, repairs };
+};
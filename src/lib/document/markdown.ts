@@ -0,0 +1,198 @@
+import { ImportResult, rejectedImport } from './import';
+import { documentToOutline, outlineToDocument, OutlineNode, OutlineTopic } from './outline';
+import type { DocumentInput } from './serialize';
+
+// Markdown outlines. Headings are nodes, nested by level, and the text under a
+// heading is its description. A bullet list under a heading that is at most
+// two levels deep holds the node's topics and sub-topics, which is also how
+// they are written back; deeper lists, and lists without any heading above
+// them, are nodes too. Markdown has six heading levels, so a list under a
+// sixth-level heading always holds nodes: that is how deeper maps are written.
+
+const MAX_HEADING_LEVEL = 6;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+// Description lines that would read as a heading or a list item.
+const MARKUP_START = /^(\s*)(?=#{1,6}\s|[-*+]\s|\d+[.)]\s)/;
+const ESCAPED_MARKUP_START = /^(\s*)\\(?=#{1,6}\s|[-*+]\s|\d+[.)]\s)/;
+
+interface ListItem {
+  label: string;
+  indent: number;
+  children: ListItem[];
+}
+
+interface Section {
+  level: number;
+  node: OutlineNode;
+  body: string[];
+  items: ListItem[];
+}
+
+const indentWidth = (whitespace: string) => whitespace.replace(/\t/g, '    ').length;
+
+const listDepth = (items: ListItem[]): number =>
+  items.length === 0 ? 0 : 1 + Math.max(...items.map((item) => listDepth(item.children)));
+
+const itemToNode = (item: ListItem): OutlineNode => ({ label: item.label, children: item.children.map(itemToNode) });
+
+const itemsToTopics = (items: ListItem[]): OutlineTopic[] =>
+  items.map((item) => ({ label: item.label, subTopics: item.children.map((child) => child.label) }));
+
+const toDescription = (body: string[]) => {
+  let fenced = false;
+  const text = body
+    .map((line) => {
+      if (FENCE.test(line)) fenced = !fenced;
+      return fenced || FENCE.test(line) ? line : line.replace(ESCAPED_MARKUP_START, '$1');
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return text || undefined;
+};
+
+// The sections of the file, the first being the text before any heading.
+const parseSections = (text: string): Section[] => {
+  const preamble: Section = { level: 0, node: { label: '', children: [] }, body: [], items: [] };
+  const sections = [preamble];
+  const open = [preamble];
+  let listStack: ListItem[] = [];
+  let inList = false;
+  let fenced = false;
+
+  text.split(/\r?\n/).forEach((line) => {
+    const section = open[open.length - 1];
+    if (fenced || FENCE.test(line)) {
+      if (FENCE.test(line)) fenced = !fenced;
+      section.body.push(line);
+      inList = false;
+      return;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      while (open[open.length - 1].level >= level) open.pop();
+      const node: OutlineNode = { label: heading[2].trim(), children: [] };
+      open[open.length - 1].node.children.push(node);
+      const next: Section = { level, node, body: [], items: [] };
+      sections.push(next);
+      open.push(next);
+      listStack = [];
+      inList = false;
+      return;
+    }
+
+    const bullet = BULLET.exec(line);
+    if (bullet && bullet[2].trim()) {
+      const item: ListItem = { label: bullet[2].trim(), indent: indentWidth(bullet[1]), children: [] };
+      while (listStack.length > 0 && listStack[listStack.length - 1].indent >= item.indent) listStack.pop();
+      (listStack.length > 0 ? listStack[listStack.length - 1].children : section.items).push(item);
+      listStack.push(item);
+      inList = true;
+      return;
+    }
+
+    if (line.trim() === '') {
+      section.body.push('');
+      return;
+    }
+    // Indented text right after a list item continues that item.
+    if (inList && /^\s/.test(line) && listStack.length > 0) {
+      const item = listStack[listStack.length - 1];
+      item.label = `${item.label} ${line.trim()}`;
+      return;
+    }
+    section.body.push(line);
+    listStack = [];
+    inList = false;
+  });
+
+  return sections;
+};
+
+/** Reads a Markdown file as a new map. Never throws. */
+export const importMarkdown = (text: string, fileName: string): ImportResult => {
+  const sections = parseSections(text);
+  const [preamble] = sections;
+  const hasContent = sections.some((section) => section.level > 0 || section.items.length > 0 || toDescription(section.body));
+  if (!hasContent) {
+    return rejectedImport('The file does not contain any headings, list items or text.');
+  }
+
+  sections.forEach((section) => {
+    section.node.description = toDescription(section.body);
+    if (section.level > 0 && section.level < MAX_HEADING_LEVEL && listDepth(section.items) <= 2) {
+      section.node.topics = itemsToTopics(section.items);
+    } else {
+      section.node.children = [...section.items.map(itemToNode), ...section.node.children];
+    }
+  });
+
+  const warnings: string[] = [];
+  const name = fileName.replace(/\.[^.]+$/, '') || 'Imported Mind Map';
+  let root = preamble.node;
+  if (!root.description && root.children.length === 1) {
+    // A single top-level heading or list item is the central idea.
+    root = root.children[0];
+  } else {
+    root.label = name;
+    if (root.children.length > 1) {
+      warnings.push(`The ${root.children.length} top-level entries were placed under a central idea named after the file.`);
+    }
+  }
+
+  return { document: outlineToDocument(root.label, root), errors: [], warnings, repairs: [] };
+};
+
+// Below the last heading level nodes are list items, and their topics are
+// items too. Descriptions have no place in a list and are left out there.
+const writeItem = (node: OutlineNode, depth: number, lines: string[]) => {
+  const indent = '  '.repeat(depth);
+  lines.push(`${indent}- ${node.label}`);
+  node.topics?.forEach((topic) => {
+    lines.push(`${indent}  - ${topic.label}`, ...topic.subTopics.map((subTopic) => `${indent}    - ${subTopic}`));
+  });
+  node.children.forEach((child) => writeItem(child, depth + 1, lines));
+};
+
+const writeNode = (node: OutlineNode, depth: number, lines: string[]) => {
+  const level = depth + 1;
+  lines.push(`${'#'.repeat(level)} ${node.label}`, '');
+  if (node.description) {
+    let fenced = false;
+    node.description.split('\n').forEach((line) => {
+      if (FENCE.test(line)) fenced = !fenced;
+      lines.push(fenced || FENCE.test(line) ? line : line.replace(MARKUP_START, '$1\\'));
+    });
+    lines.push('');
+  }
+  if (level === MAX_HEADING_LEVEL) {
+    const items: OutlineNode[] = [
+      ...(node.topics ?? []).map((topic) => ({
+        label: topic.label,
+        children: topic.subTopics.map((label) => ({ label, children: [] })),
+      })),
+      ...node.children,
+    ];
+    items.forEach((item) => writeItem(item, 0, lines));
+    if (items.length > 0) lines.push('');
+    return;
+  }
+  if (node.topics?.length) {
+    node.topics.forEach((topic) => {
+      lines.push(`- ${topic.label}`, ...topic.subTopics.map((subTopic) => `  - ${subTopic}`));
+    });
+    lines.push('');
+  }
+  node.children.forEach((child) => writeNode(child, depth + 1, lines));
+};
+
+/** Writes every tree of the map as nested headings. */
+export const exportMarkdown = ({ nodes, edges }: DocumentInput): string => {
+  const lines: string[] = [];
+  documentToOutline(nodes, edges).forEach((root) => writeNode(root, 0, lines));
+  return `${lines.join('\n').trimEnd()}\n`;
+};
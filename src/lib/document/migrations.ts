@@ -0,0 +1,69 @@
+import { CURRENT_FORMAT_VERSION } from './schema';
+
+type RawDocument = Record<string, unknown>;
+
+/**
+ * Upgrade steps keyed by the version they upgrade FROM. Each step receives the
+ * raw (unvalidated) document at version `n` and must return version `n + 1`.
+ */
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  // v0: the original untyped export, `{ nodes, edges, mapName, edgeStyle, ... }`.
+  0: (doc) => {
+    const nodes = Array.isArray(doc.nodes) ? doc.nodes : [];
+    return {
+      formatVersion: 1,
+      appVersion: 'legacy',
+      exportedAt: new Date().toISOString(),
+      map: {
+        id: `map-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        name: typeof doc.mapName === 'string' && doc.mapName ? doc.mapName : 'Imported Mind Map',
+      },
+      settings: {
+        edgeStyle: doc.edgeStyle ?? 'smoothstep',
+        edgeColor: doc.edgeColor ?? 'hsl(var(--edge-primary))',
+        edgeLineStyle: doc.edgeLineStyle ?? 'solid',
+      },
+      // Very early builds did not store the node type.
+      nodes: nodes.map((node) =>
+        node && typeof node === 'object' && !('type' in node) ? { ...node, type: 'mindMapNode' } : node
+      ),
+      edges: doc.edges,
+    };
+  },
+  // v1 had no graph modes or layouts. Its maps were trees, and its nodes stay
+  // where they were saved.
+  1: (doc) => {
+    const settings = doc.settings && typeof doc.settings === 'object' ? (doc.settings as RawDocument) : {};
+    return {
+      ...doc,
+      formatVersion: 2,
+      settings: { graphMode: 'tree', layout: 'manual', ...settings },
+    };
+  },
+};
+
+export const getFormatVersion = (doc: RawDocument): number => {
+  return typeof doc.formatVersion === 'number' ? doc.formatVersion : 0;
+};
+
+export const migrateDocument = (doc: RawDocument): RawDocument => {
+  let version = getFormatVersion(doc);
+
+  if (version > CURRENT_FORMAT_VERSION) {
+    throw new Error(
+      `This file was created with a newer version of the app (format v${version}). Please update to open it.`
+    );
+  }
+
+  let current = doc;
+  while (version < CURRENT_FORMAT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration available from format v${version}.`);
+    }
+    current = migrate(current);
+    version += 1;
+  }
+
+  return current;
+};
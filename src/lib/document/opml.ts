@@ -0,0 +1,98 @@
+import { ImportResult, rejectedImport } from './import';
+import { documentToOutline, outlineToDocument, OutlineNode } from './outline';
+import type { DocumentInput } from './serialize';
+import { childElements, escapeXml, parseXml } from './xml';
+
+// OPML 2.0, the exchange format of outliners. Each `<outline>` is a node,
+// nested as in the file, with `text` as its label and `_note` as its
+// description. Any other attributes are kept on the node and written back on
+// export, so a file passes through the editor without losing them.
+
+const READ_ATTRIBUTES = new Set(['text', '_note']);
+
+const readOutline = (element: Element): OutlineNode => {
+  const attributes: Record<string, string> = {};
+  Array.from(element.attributes).forEach((attribute) => {
+    // Prefixed attributes need namespace declarations we do not keep.
+    if (!READ_ATTRIBUTES.has(attribute.name) && !attribute.name.includes(':')) {
+      attributes[attribute.name] = attribute.value;
+    }
+  });
+  return {
+    label: element.getAttribute('text')?.trim() || 'Untitled',
+    description: element.getAttribute('_note')?.trim() || undefined,
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    children: childElements(element, 'outline').map(readOutline),
+  };
+};
+
+/** Reads an OPML file as a new map. Never throws. */
+export const importOpml = (text: string, fileName: string): ImportResult => {
+  const xml = parseXml(text);
+  if (!xml) {
+    return rejectedImport('The file is not valid XML.');
+  }
+  const opml = xml.documentElement;
+  const [body] = childElements(opml, 'body');
+  if (opml.localName !== 'opml' || !body) {
+    return rejectedImport('The file is not an OPML outline.');
+  }
+  const outlines = childElements(body, 'outline').map(readOutline);
+  if (outlines.length === 0) {
+    return rejectedImport('The outline is empty.');
+  }
+
+  const warnings: string[] = [];
+  const title = xml.querySelector('head > title')?.textContent?.trim();
+  const name = title || fileName.replace(/\.[^.]+$/, '') || 'Imported Mind Map';
+  let root: OutlineNode;
+  if (outlines.length === 1) {
+    root = outlines[0];
+  } else {
+    root = { label: name, children: outlines };
+    warnings.push(`The ${outlines.length} top-level outlines were placed under a central idea named "${name}".`);
+  }
+
+  return { document: outlineToDocument(title || root.label, root), errors: [], warnings, repairs: [] };
+};
+
+const writeOutline = (node: OutlineNode, depth: number, lines: string[]) => {
+  const indent = '  '.repeat(depth + 2);
+  const attributes = [`text="${escapeXml(node.label)}"`];
+  if (node.description) attributes.push(`_note="${escapeXml(node.description)}"`);
+  Object.entries(node.attributes ?? {}).forEach(([name, value]) => {
+    if (!READ_ATTRIBUTES.has(name)) attributes.push(`${name}="${escapeXml(value)}"`);
+  });
+
+  // Outliners have no topics, so they are written as the first children.
+  const children: OutlineNode[] = [
+    ...(node.topics ?? []).map((topic) => ({
+      label: topic.label,
+      children: topic.subTopics.map((label) => ({ label, children: [] })),
+    })),
+    ...node.children,
+  ];
+  if (children.length === 0) {
+    lines.push(`${indent}<outline ${attributes.join(' ')}/>`);
+    return;
+  }
+  lines.push(`${indent}<outline ${attributes.join(' ')}>`);
+  children.forEach((child) => writeOutline(child, depth + 1, lines));
+  lines.push(`${indent}</outline>`);
+};
+
+/** Writes every tree of the map as top-level outlines. */
+export const exportOpml = ({ map, nodes, edges }: DocumentInput): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(map.name)}</title>`,
+    `    <dateModified>${new Date(map.updatedAt ?? Date.now()).toUTCString()}</dateModified>`,
+    '  </head>',
+    '  <body>',
+  ];
+  documentToOutline(nodes, edges).forEach((root) => writeOutline(root, 0, lines));
+  lines.push('  </body>', '</opml>');
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,104 @@
+import type { Edge, Node } from 'reactflow';
+import type { MindMapNodeData } from '@/store/mindMapStore';
+import { DEFAULT_EDGE_COLOR, DEFAULT_EDGE_WIDTH } from '@/lib/edges';
+import { getOrderedChildMap, isHierarchyEdge } from '@/lib/tree';
+import type { MindMapDocument } from './schema';
+import { createDocument } from './serialize';
+
+// Outline formats (Markdown and the like) only know a tree of labelled
+// entries. These helpers convert between that tree and our documents; all
+// styling, positions and relationship links are left to the editor.
+
+export interface OutlineTopic {
+  label: string;
+  subTopics: string[];
+}
+
+export interface OutlineNode {
+  label: string;
+  description?: string;
+  topics?: OutlineTopic[];
+  /** Attributes of the source file's entry that the editor has no use for. */
+  attributes?: Record<string, string>;
+  children: OutlineNode[];
+}
+
+const topicId = (nodeIndex: number, ...path: number[]) => `topic-${nodeIndex}-${path.join('-')}`;
+
+/**
+ * A new map with `root` as its central idea. Nodes get no positions of their
+ * own: the map opens with the default layout, which places them.
+ */
+export const outlineToDocument = (name: string, root: OutlineNode): MindMapDocument => {
+  const nodes: Node<MindMapNodeData>[] = [];
+  const edges: Edge[] = [];
+
+  const add = (entry: OutlineNode, parentId: string | null) => {
+    const index = nodes.length;
+    const id = parentId ? `imported-${index}` : 'root';
+    const data: MindMapNodeData = { label: entry.label, color: 'blue', nodeType: 'text' };
+    if (entry.description) data.description = entry.description;
+    if (entry.attributes && Object.keys(entry.attributes).length > 0) data.outlineAttributes = entry.attributes;
+    if (entry.topics?.length) {
+      data.topics = entry.topics.map((topic, i) => ({
+        id: topicId(index, i),
+        label: topic.label,
+        subTopics: topic.subTopics.map((label, j) => ({ id: topicId(index, i, j), label })),
+      }));
+    }
+    nodes.push({ id, type: 'mindMapNode', position: { x: 0, y: 0 }, data });
+    if (parentId) {
+      edges.push({
+        id: `edge-${parentId}-${id}`,
+        source: parentId,
+        target: id,
+        type: 'smoothstep',
+        style: { strokeWidth: DEFAULT_EDGE_WIDTH, stroke: DEFAULT_EDGE_COLOR },
+      });
+    }
+    entry.children.forEach((child) => add(child, id));
+  };
+  add(root, null);
+
+  return createDocument({
+    map: { id: '', name },
+    settings: {
+      edgeStyle: 'smoothstep',
+      edgeColor: DEFAULT_EDGE_COLOR,
+      edgeLineStyle: 'solid',
+      graphMode: 'tree',
+      layout: 'right-tree',
+    },
+    nodes,
+    edges,
+  });
+};
+
+/**
+ * Every tree of the map as an outline, children in sibling order. A node with
+ * several parents is written under the first one reached.
+ */
+export const documentToOutline = (nodes: Node<MindMapNodeData>[], edges: Edge[]): OutlineNode[] => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const childIds = getOrderedChildMap(nodes, edges);
+  const hasParent = new Set(edges.filter(isHierarchyEdge).map((edge) => edge.target));
+  const visited = new Set<string>();
+
+  const toOutline = (node: Node<MindMapNodeData>): OutlineNode => {
+    visited.add(node.id);
+    const children = (childIds.get(node.id) ?? [])
+      .flatMap((id) => (visited.has(id) ? [] : [toOutline(byId.get(id)!)]));
+    return {
+      label: node.data.label,
+      description: node.data.description || undefined,
+      topics: node.data.topics?.map((topic) => ({
+        label: topic.label,
+        subTopics: topic.subTopics.map((subTopic) => subTopic.label),
+      })),
+      attributes: node.data.outlineAttributes,
+      children,
+    };
+  };
+
+  return nodes.filter((node) => !hasParent.has(node.id)).map(toOutline);
+};
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import type { Node, Edge, XYPosition } from 'reactflow';
+import type {
+  MindMapNodeData,
+  MindMapEdgeData,
+  SubTopic,
+  Topic,
+  NodeColor,
+  TextColor,
+  FontFamily,
+  TextSize,
+  EdgeStyle,
+  EdgeLineStyle,
+  GraphMode,
+  LayoutKind,
+  NodeType,
+} from '@/store/mindMapStore';
+
+// Bump this whenever the shape of an exported document changes, and add the
+// matching upgrade step to `migrations.ts`.
+// v2: graph modes, relationship links, dotted lines and layouts.
+export const CURRENT_FORMAT_VERSION = 2;
+
+// The app compiles without `strict`, where zod infers every key of an object
+// as optional, so inferred types never match the editor's own. Object schemas
+// are instead built from a shape checked against the type they parse to: a
+// key the type does not have, a required key left out or a value schema of
+// another type fails to compile.
+type SchemaShape<T> = {
+  [K in keyof T as Partial<Pick<T, K>> extends Pick<T, K> ? never : K]-?: z.ZodType<T[K]>;
+} & {
+  [K in keyof T]?: z.ZodType<T[K]>;
+};
+
+// Reports the same issues as `z.object(shape)` and types what passes as `T`.
+// Unknown keys are kept.
+export const objectSchema = <T>(shape: SchemaShape<T>): z.ZodType<T> => {
+  const schema = z.object(shape as z.ZodRawShape).passthrough();
+  return z.custom<T>().superRefine((value, ctx) => {
+    const result = schema.safeParse(value);
+    if (!result.success) result.error.issues.forEach((issue) => ctx.addIssue(issue));
+  });
+};
+
+export const nodeColorSchema: z.ZodType<NodeColor> = z.enum([
+  'blue', 'purple', 'green', 'orange', 'pink', 'teal', 'yellow', 'gray', 'transparent',
+]);
+
+export const textColorSchema: z.ZodType<TextColor> = z.enum([
+  'default', 'white', 'black', 'blue', 'purple', 'green', 'orange', 'pink', 'teal', 'red',
+]);
+
+export const fontFamilySchema: z.ZodType<FontFamily> = z.enum([
+  'default', 'serif', 'mono', 'handwriting', 'modern', 'slab', 'condensed', 'marker',
+]);
+
+export const textSizeSchema: z.ZodType<TextSize> = z.enum(['xs', 'sm', 'base', 'lg', 'xl', '2xl', '3xl']);
+
+export const edgeStyleSchema: z.ZodType<EdgeStyle> = z.enum(['smoothstep', 'straight', 'step', 'bezier']);
+
+export const edgeLineStyleSchema: z.ZodType<EdgeLineStyle> = z.enum(['solid', 'dashed', 'dotted']);
+
+export const graphModeSchema: z.ZodType<GraphMode> = z.enum(['tree', 'free']);
+
+export const layoutKindSchema: z.ZodType<LayoutKind> = z.enum([
+  'manual', 'right-tree', 'balanced', 'org-chart', 'radial', 'fishbone',
+]);
+
+export const nodeTypeSchema: z.ZodType<NodeType> = z.enum(['text', 'image']);
+
+export const subTopicSchema = objectSchema<SubTopic>({
+  id: z.string(),
+  label: z.string(),
+});
+
+export const topicSchema = objectSchema<Topic>({
+  id: z.string(),
+  label: z.string(),
+  subTopics: z.array(subTopicSchema),
+});
+
+// Unknown keys are kept so that documents written by a newer build survive a
+// round trip through an older one.
+export const mindMapNodeDataSchema = objectSchema<MindMapNodeData>({
+  label: z.string(),
+  color: nodeColorSchema,
+  description: z.string().optional(),
+  icon: z.string().optional(),
+  textColor: textColorSchema.optional(),
+  textSize: textSizeSchema.optional(),
+  topics: z.array(topicSchema).optional(),
+  tags: z.array(z.string()).optional(),
+  order: z.number().optional(),
+  collapsed: z.boolean().optional(),
+  isRoot: z.boolean().optional(),
+  fontFamily: fontFamilySchema.optional(),
+  backgroundColor: z.string().optional(),
+  nodeType: nodeTypeSchema.optional(),
+  imageUrl: z.string().optional(),
+  layoutType: z.enum(['default', 'stacked', 'structure']).optional(),
+  structure: layoutKindSchema.optional(),
+  side: z.enum(['left', 'right']).optional(),
+  borderColor: z.string().optional(),
+  outlineAttributes: z.record(z.string()).optional(),
+});
+
+const positionSchema = objectSchema<XYPosition>({
+  x: z.number(),
+  y: z.number(),
+});
+
+// Validated nodes and edges are handed straight to React Flow, so they parse
+// to its types; the React Flow state they do not list is not checked.
+export const nodeSchema = objectSchema<Node<MindMapNodeData>>({
+  id: z.string(),
+  type: z.string().optional(),
+  position: positionSchema,
+  data: mindMapNodeDataSchema,
+  width: z.number().nullish(),
+  height: z.number().nullish(),
+  hidden: z.boolean().optional(),
+});
+
+export const edgeDataSchema = objectSchema<MindMapEdgeData>({
+  kind: z.enum(['hierarchy', 'relationship']).optional(),
+  label: z.string().optional(),
+});
+
+export const edgeSchema = objectSchema<Edge>({
+  id: z.string(),
+  source: z.string(),
+  target: z.string(),
+  type: z.string().optional(),
+  data: edgeDataSchema.optional(),
+  hidden: z.boolean().optional(),
+});
+
+export interface MapMetadata {
+  id: string;
+  name: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const mapMetadataSchema = objectSchema<MapMetadata>({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export interface MapSettings {
+  edgeStyle: EdgeStyle;
+  edgeColor: string;
+  edgeLineStyle: EdgeLineStyle;
+  // Both added in v2; the upgrade from v1 fills them in.
+  graphMode: GraphMode;
+  layout: LayoutKind;
+}
+
+export const mapSettingsSchema = objectSchema<MapSettings>({
+  edgeStyle: edgeStyleSchema,
+  edgeColor: z.string(),
+  edgeLineStyle: edgeLineStyleSchema,
+  graphMode: graphModeSchema,
+  layout: layoutKindSchema,
+});
+
+export interface MindMapDocument {
+  formatVersion: typeof CURRENT_FORMAT_VERSION;
+  appVersion: string;
+  exportedAt: string;
+  map: MapMetadata;
+  settings: MapSettings;
+  nodes: Node<MindMapNodeData>[];
+  edges: Edge[];
+}
+
+export const mindMapDocumentSchema = objectSchema<MindMapDocument>({
+  formatVersion: z.literal(CURRENT_FORMAT_VERSION),
+  appVersion: z.string(),
+  exportedAt: z.string(),
+  map: mapMetadataSchema,
+  settings: mapSettingsSchema,
+  nodes: z.array(nodeSchema),
+  edges: z.array(edgeSchema),
+});
@@ -0,0 +1,27 @@
+import { Node, Edge } from 'reactflow';
+import type { MindMapNodeData } from '@/store/mindMapStore';
+import { sortInTreeOrder } from '@/lib/tree';
+import { CURRENT_FORMAT_VERSION, MindMapDocument, MapMetadata, MapSettings } from './schema';
+
+export interface DocumentInput {
+  map: MapMetadata;
+  settings: MapSettings;
+  nodes: Node<MindMapNodeData>[];
+  edges: Edge[];
+}
+
+export const createDocument = ({ map, settings, nodes, edges }: DocumentInput): MindMapDocument => ({
+  formatVersion: CURRENT_FORMAT_VERSION,
+  appVersion: __APP_VERSION__,
+  exportedAt: new Date().toISOString(),
+  map,
+  settings,
+  // Drop transient React Flow state that has no meaning outside the editor.
+  // Nodes are written as an outline, so the file reads in sibling order.
+  nodes: sortInTreeOrder(nodes, edges).map(({ selected, dragging, positionAbsolute, ...node }) => node),
+  edges: edges.map(({ selected, ...edge }) => edge),
+});
+
+export const serializeDocument = (input: DocumentInput): string => {
+  return JSON.stringify(createDocument(input), null, 2);
+};
@@ -0,0 +1,348 @@
+import type { Edge, Node } from 'reactflow';
+import type { LayoutKind, MindMapEdgeData, MindMapNodeData } from '@/store/mindMapStore';
+import { DEFAULT_EDGE_COLOR, DEFAULT_EDGE_WIDTH, relationshipEdgeDefaults } from '@/lib/edges';
+import { ImportResult, rejectedImport } from './import';
+import type { MindMapDocument } from './schema';
+import { createDocument } from './serialize';
+import { childElements, parseXml } from './xml';
+import { readZip, ZipEntry } from './zip';
+
+// XMind files (.xmind) are zip archives. Newer versions describe the sheets in
+// `content.json`, XMind 8 and older in `content.xml`; both are read into the
+// same topic tree first. Every sheet becomes a map of its own. Labels and
+// markers become tags, notes the description, relationships cross-links and
+// embedded images image nodes; styles, themes and boundaries are left out.
+
+export const XMIND_EXTENSION = '.xmind';
+
+export interface XMindImportResult extends ImportResult {
+  /** One map per sheet, in order. `document` is the first one. */
+  documents: MindMapDocument[];
+}
+
+interface XMindImage {
+  src: string;
+  width?: number;
+  height?: number;
+}
+
+interface XMindTopic {
+  id?: string;
+  title: string;
+  note?: string;
+  tags: string[];
+  image?: XMindImage;
+  folded: boolean;
+  structure?: string;
+  children: XMindTopic[];
+  /** Floating topics, which have no line to their parent. */
+  detached: XMindTopic[];
+}
+
+interface XMindRelationship {
+  end1: string;
+  end2: string;
+  title?: string;
+}
+
+interface XMindSheet {
+  title: string;
+  root: XMindTopic;
+  relationships: XMindRelationship[];
+}
+
+// The structures of XMind's root topics we have a layout for.
+const STRUCTURE_LAYOUTS: Record<string, LayoutKind> = {
+  'org.xmind.ui.logic.right': 'right-tree',
+  'org.xmind.ui.tree.right': 'right-tree',
+  'org.xmind.ui.org-chart.down': 'org-chart',
+  'org.xmind.ui.fishbone.leftHeaded': 'fishbone',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+};
+
+const rejected = (error: string): XMindImportResult => ({ ...rejectedImport(error), documents: [] });
+
+// Markers are ids like 'priority-1' or 'task-done'.
+const markerTag = (markerId: string) => markerId.replace(/[-_]/g, ' ');
+
+const uniqueTags = (tags: (string | undefined)[]) => [
+  ...new Set(tags.map((tag) => tag?.trim()).filter((tag): tag is string => !!tag)),
+];
+
+const toNumber = (value: unknown) => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && number > 0 ? number : undefined;
+};
+
+// content.json
+
+type JsonRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonRecord) : {};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const readJsonTopic = (raw: unknown): XMindTopic => {
+  const topic = asRecord(raw);
+  const children = asRecord(topic.children);
+  const image = asRecord(topic.image);
+  const src = asString(image.src);
+  return {
+    id: asString(topic.id),
+    title: asString(topic.title) ?? '',
+    note: asString(asRecord(asRecord(topic.notes).plain).content),
+    tags: uniqueTags([
+      ...asArray(topic.labels).map(asString),
+      ...asArray(topic.markers).map((marker) => asString(asRecord(marker).markerId)).map((id) => id && markerTag(id)),
+    ]),
+    image: src ? { src, width: toNumber(image.width), height: toNumber(image.height) } : undefined,
+    folded: topic.branch === 'folded',
+    structure: asString(topic.structureClass),
+    children: asArray(children.attached).map(readJsonTopic),
+    detached: asArray(children.detached).map(readJsonTopic),
+  };
+};
+
+const readJsonSheets = (text: string): XMindSheet[] =>
+  asArray(JSON.parse(text)).flatMap((raw) => {
+    const sheet = asRecord(raw);
+    if (!sheet.rootTopic) return [];
+    return [{
+      title: asString(sheet.title) ?? '',
+      root: readJsonTopic(sheet.rootTopic),
+      relationships: asArray(sheet.relationships).flatMap((rawRelationship) => {
+        const relationship = asRecord(rawRelationship);
+        const end1 = asString(relationship.end1Id);
+        const end2 = asString(relationship.end2Id);
+        return end1 && end2 ? [{ end1, end2, title: asString(relationship.title) }] : [];
+      }),
+    }];
+  });
+
+// content.xml
+
+const childrenOf = (parent: Element | undefined, name: string) => (parent ? childElements(parent, name) : []);
+
+const textOf = (parent: Element, name: string) => childElements(parent, name)[0]?.textContent ?? undefined;
+
+// Image attributes carry the XHTML or SVG prefix, depending on the version.
+const attributeByLocalName = (element: Element, name: string) =>
+  Array.from(element.attributes).find((attribute) => attribute.localName === name)?.value;
+
+const readXmlTopic = (element: Element): XMindTopic => {
+  const [children] = childElements(element, 'children');
+  const topicsOfType = (type: string) =>
+    childrenOf(children, 'topics')
+      .filter((topics) => topics.getAttribute('type') === type)
+      .flatMap((topics) => childElements(topics, 'topic'))
+      .map(readXmlTopic);
+  const [image] = childElements(element, 'img');
+  const src = image && attributeByLocalName(image, 'src');
+  return {
+    id: element.getAttribute('id') ?? undefined,
+    title: textOf(element, 'title') ?? '',
+    note: childrenOf(childElements(element, 'notes')[0], 'plain')[0]?.textContent ?? undefined,
+    tags: uniqueTags([
+      ...childrenOf(childElements(element, 'labels')[0], 'label').map((label) => label.textContent ?? undefined),
+      ...childrenOf(childElements(element, 'marker-refs')[0], 'marker-ref').map((ref) => {
+        const markerId = ref.getAttribute('marker-id');
+        return markerId ? markerTag(markerId) : undefined;
+      }),
+    ]),
+    image: src
+      ? {
+          src,
+          width: toNumber(attributeByLocalName(image, 'width')),
+          height: toNumber(attributeByLocalName(image, 'height')),
+        }
+      : undefined,
+    folded: element.getAttribute('branch') === 'folded',
+    structure: element.getAttribute('structure-class') ?? undefined,
+    children: topicsOfType('attached'),
+    detached: topicsOfType('detached'),
+  };
+};
+
+const readXmlSheets = (text: string): XMindSheet[] | null => {
+  const xml = parseXml(text);
+  if (!xml) return null;
+  return childElements(xml.documentElement, 'sheet').flatMap((sheet) => {
+    const [root] = childElements(sheet, 'topic');
+    if (!root) return [];
+    return [{
+      title: textOf(sheet, 'title') ?? '',
+      root: readXmlTopic(root),
+      relationships: childrenOf(childElements(sheet, 'relationships')[0], 'relationship').flatMap((relationship) => {
+        const end1 = relationship.getAttribute('end1');
+        const end2 = relationship.getAttribute('end2');
+        return end1 && end2 ? [{ end1, end2, title: textOf(relationship, 'title') }] : [];
+      }),
+    }];
+  });
+};
+
+// Images
+
+const toDataUrl = (bytes: Uint8Array, mimeType: string) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// Every image the sheets use, as a URL the editor can show. Embedded images
+// are referenced as `xap:<path in the archive>`; others are links already.
+const loadImages = async (sheets: XMindSheet[], entries: ZipEntry[]) => {
+  const sources = new Set<string>();
+  const collect = (topic: XMindTopic) => {
+    if (topic.image) sources.add(topic.image.src);
+    [...topic.children, ...topic.detached].forEach(collect);
+  };
+  sheets.forEach((sheet) => collect(sheet.root));
+
+  const urls = new Map<string, string>();
+  for (const src of sources) {
+    if (!src.startsWith('xap:')) {
+      urls.set(src, src);
+      continue;
+    }
+    const path = src.slice('xap:'.length);
+    const entry = entries.find((candidate) => candidate.name === path);
+    const mimeType = IMAGE_TYPES[path.split('.').pop()?.toLowerCase() ?? ''];
+    if (entry && mimeType) urls.set(src, toDataUrl(await entry.read(), mimeType));
+  }
+  return urls;
+};
+
+const sheetToDocument = (
+  sheet: XMindSheet,
+  name: string,
+  images: Map<string, string>,
+  counts: { missingImages: number; missingLinks: number }
+): MindMapDocument => {
+  const nodes: Node<MindMapNodeData>[] = [];
+  const edges: Edge[] = [];
+  // XMind ids to ours, for the relationships.
+  const nodeIds = new Map<string, string>();
+
+  const add = (topic: XMindTopic, parentId: string | null) => {
+    const id = nodes.length === 0 ? 'root' : `imported-${nodes.length}`;
+    const data: MindMapNodeData = { label: topic.title.trim() || 'Untitled', color: 'blue', nodeType: 'text' };
+    if (topic.note?.trim()) data.description = topic.note.trim();
+    if (topic.tags.length > 0) data.tags = topic.tags;
+    if (topic.folded) data.collapsed = true;
+    const node: Node<MindMapNodeData> = { id, type: 'mindMapNode', position: { x: 0, y: 0 }, data };
+    if (topic.image) {
+      const imageUrl = images.get(topic.image.src);
+      if (imageUrl) {
+        data.nodeType = 'image';
+        data.imageUrl = imageUrl;
+        if (!topic.title.trim()) data.label = 'Image';
+        if (topic.image.width && topic.image.height) {
+          node.style = { width: topic.image.width, height: topic.image.height };
+        }
+      } else {
+        counts.missingImages += 1;
+      }
+    }
+
+    nodes.push(node);
+    if (topic.id) nodeIds.set(topic.id, id);
+    if (parentId) {
+      edges.push({
+        id: `edge-${parentId}-${id}`,
+        source: parentId,
+        target: id,
+        type: 'bezier',
+        style: { strokeWidth: DEFAULT_EDGE_WIDTH, stroke: DEFAULT_EDGE_COLOR },
+      });
+    }
+    topic.children.forEach((child) => add(child, id));
+    // Floating topics have no line to their parent, so they are trees of their own.
+    topic.detached.forEach((child) => add(child, null));
+  };
+  add(sheet.root, null);
+
+  sheet.relationships.forEach(({ end1, end2, title }) => {
+    const source = nodeIds.get(end1);
+    const target = nodeIds.get(end2);
+    if (!source || !target) {
+      counts.missingLinks += 1;
+      return;
+    }
+    const data: MindMapEdgeData = { kind: 'relationship' };
+    if (title?.trim()) data.label = title.trim();
+    edges.push({ ...relationshipEdgeDefaults, id: `link-${source}-${target}`, source, target, data });
+  });
+
+  return createDocument({
+    map: { id: '', name },
+    settings: {
+      edgeStyle: 'bezier',
+      edgeColor: DEFAULT_EDGE_COLOR,
+      edgeLineStyle: 'solid',
+      graphMode: 'tree',
+      layout: STRUCTURE_LAYOUTS[sheet.root.structure ?? ''] ?? 'balanced',
+    },
+    nodes,
+    edges,
+  });
+};
+
+/** Reads every sheet of an XMind file as a map. Never throws. */
+export const importXMind = async (data: ArrayBuffer, fileName: string): Promise<XMindImportResult> => {
+  let sheets: XMindSheet[] | null;
+  let images: Map<string, string>;
+  try {
+    const entries = readZip(data);
+    if (!entries) {
+      return rejected('The file is not an XMind file.');
+    }
+    const json = entries.find((entry) => entry.name === 'content.json');
+    const xml = entries.find((entry) => entry.name === 'content.xml');
+    const decode = async (entry: ZipEntry) => new TextDecoder().decode(await entry.read());
+    // Newer files keep a content.xml too, which only asks for a newer XMind.
+    sheets = json ? readJsonSheets(await decode(json)) : xml ? readXmlSheets(await decode(xml)) : null;
+    if (!sheets) {
+      return rejected('The file does not contain an XMind map.');
+    }
+    images = await loadImages(sheets, entries);
+  } catch (error) {
+    return rejected(`The file could not be read: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (sheets.length === 0) {
+    return rejected('The file does not contain any sheets.');
+  }
+
+  const counts = { missingImages: 0, missingLinks: 0 };
+  const fallbackName = fileName.replace(/\.[^.]+$/, '') || 'Imported Mind Map';
+  const documents = sheets.map((sheet) =>
+    sheetToDocument(sheet, sheet.title.trim() || sheet.root.title.trim() || fallbackName, images, counts)
+  );
+
+  const warnings: string[] = [];
+  if (counts.missingImages > 0) {
+    warnings.push(`${counts.missingImages} image${counts.missingImages === 1 ? ' was' : 's were'} not found in the file and left out.`);
+  }
+  if (counts.missingLinks > 0) {
+    warnings.push(
+      counts.missingLinks === 1
+        ? '1 relationship to a missing topic was left out.'
+        : `${counts.missingLinks} relationships to missing topics were left out.`
+    );
+  }
+  return { document: documents[0], documents, errors: [], warnings, repairs: [] };
+};
@@ -0,0 +1,25 @@
+// Helpers shared by the XML-based formats. Parsing uses the browser's own
+// DOMParser, so nothing is sent anywhere and no library is needed.
+
+/** The parsed file, or null when it is not well-formed XML. */
+export const parseXml = (text: string): XMLDocument | null => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  return xml.getElementsByTagName('parsererror').length > 0 ? null : xml;
+};
+
+/** The direct children of `parent` with the given tag name. */
+export const childElements = (parent: Element, name: string) =>
+  Array.from(parent.children).filter((child) => child.localName === name);
+
+/** `value` as text content or as the value of a double-quoted attribute. */
+export const escapeXml = (value: string) =>
+  value
+    // Control characters other than tab and newline are not allowed in XML.
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#9;')
+    .replace(/\r?\n/g, '&#10;');
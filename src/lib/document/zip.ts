@@ -0,0 +1,81 @@
+// A minimal reader for zip archives, enough for the files other mind map
+// tools save as zips. Entries are inflated with the browser's own
+// DecompressionStream; ZIP64, encryption and split archives are not supported.
+
+export interface ZipEntry {
+  name: string;
+  /** The uncompressed content. Rejects when the entry cannot be unpacked. */
+  read: () => Promise<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+const ENCRYPTED_FLAG = 0x1;
+
+const inflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const damaged = (detail: string) => new Error(`The archive is damaged: ${detail}.`);
+
+/**
+ * The entries of the archive, or null when `data` is not a zip archive.
+ * Throws when it is one but its directory is cut short or damaged.
+ */
+export const readZip = (data: ArrayBuffer): ZipEntry[] | null => {
+  const view = new DataView(data);
+  const utf8 = new TextDecoder();
+
+  // The end record is last, followed only by a comment of up to 64 KiB.
+  let end = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i -= 1) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i += 1) {
+    if (offset + 46 > data.byteLength || view.getUint32(offset, true) !== CENTRAL_FILE_HEADER) {
+      throw damaged(`entry ${i + 1} of ${count} is missing from its directory`);
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    if (offset + 46 + nameLength + extraLength + commentLength > data.byteLength) {
+      throw damaged(`the directory ends in the middle of entry ${i + 1}`);
+    }
+    const name = utf8.decode(new Uint8Array(data, offset + 46, nameLength));
+
+    entries.push({
+      name,
+      read: async () => {
+        if (flags & ENCRYPTED_FLAG) throw new Error(`${name} is encrypted.`);
+        if (localOffset + 30 > data.byteLength || view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+          throw damaged(`${name} has no header`);
+        }
+        // The local header repeats the name but may have a different extra field.
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        if (start + compressedSize > data.byteLength) throw damaged(`${name} is cut short`);
+        const bytes = new Uint8Array(data, start, compressedSize);
+        if (method === STORED) return bytes.slice();
+        if (method === DEFLATED) return inflate(bytes);
+        throw new Error(`${name} uses an unsupported compression method.`);
+      },
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
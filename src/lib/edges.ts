@@ -0,0 +1,89 @@
+import { MarkerType } from 'reactflow';
+import type { Edge, EdgeMarker } from 'reactflow';
+import type { EdgeLineStyle, EdgePathType, MindMapEdgeData } from '@/store/mindMapStore';
+
+// Edge appearance lives in React Flow's own fields (`type`, `style`,
+// `markerStart`, `markerEnd`) so that exported maps render as they look here.
+// These helpers translate between those fields and the editor's settings.
+
+export type EdgeArrow = 'none' | 'arrow' | 'arrowclosed';
+
+export interface EdgeAppearance {
+  pathType: EdgePathType;
+  color: string;
+  width: number;
+  lineStyle: EdgeLineStyle;
+  startArrow: EdgeArrow;
+  endArrow: EdgeArrow;
+}
+
+export const DEFAULT_EDGE_COLOR = 'hsl(var(--edge-primary))';
+export const DEFAULT_EDGE_WIDTH = 2;
+
+export const DASH_PATTERNS: Record<EdgeLineStyle, string | undefined> = {
+  solid: undefined,
+  dashed: '5,5',
+  dotted: '2,6',
+};
+
+const RELATIONSHIP_COLOR = 'hsl(var(--muted-foreground))';
+
+// Relationship edges stay dotted, muted and arrowed whatever the map's line
+// settings are, so they never read as part of the tree.
+export const relationshipEdgeDefaults: Partial<Edge<MindMapEdgeData>> = {
+  type: 'relationship',
+  data: { kind: 'relationship' },
+  animated: false,
+  markerEnd: { type: MarkerType.ArrowClosed, color: RELATIONSHIP_COLOR },
+  style: {
+    strokeWidth: 2,
+    stroke: RELATIONSHIP_COLOR,
+    strokeDasharray: DASH_PATTERNS.dotted,
+    strokeLinecap: 'round',
+  },
+};
+
+const getLineStyle = (dashArray: unknown): EdgeLineStyle => {
+  if (!dashArray) return 'solid';
+  return dashArray === DASH_PATTERNS.dotted ? 'dotted' : 'dashed';
+};
+
+const getArrow = (marker: Edge['markerEnd']): EdgeArrow => {
+  if (!marker) return 'none';
+  const type = typeof marker === 'string' ? marker : marker.type;
+  return type === MarkerType.Arrow ? 'arrow' : 'arrowclosed';
+};
+
+const createMarker = (arrow: EdgeArrow, color: string): EdgeMarker | undefined =>
+  arrow === 'none'
+    ? undefined
+    : { type: arrow === 'arrow' ? MarkerType.Arrow : MarkerType.ArrowClosed, color };
+
+export const getEdgeAppearance = (edge: Edge<MindMapEdgeData>): EdgeAppearance => ({
+  pathType: (edge.type ?? 'bezier') as EdgePathType,
+  color: (edge.style?.stroke as string | undefined) ?? DEFAULT_EDGE_COLOR,
+  width: Number(edge.style?.strokeWidth ?? DEFAULT_EDGE_WIDTH),
+  lineStyle: getLineStyle(edge.style?.strokeDasharray),
+  startArrow: getArrow(edge.markerStart),
+  endArrow: getArrow(edge.markerEnd),
+});
+
+/** `edge` with `changes` applied. Arrows keep the color of the line. */
+export const applyEdgeAppearance = (
+  edge: Edge<MindMapEdgeData>,
+  changes: Partial<EdgeAppearance>
+): Edge<MindMapEdgeData> => {
+  const appearance = { ...getEdgeAppearance(edge), ...changes };
+  return {
+    ...edge,
+    type: appearance.pathType,
+    style: {
+      ...edge.style,
+      stroke: appearance.color,
+      strokeWidth: appearance.width,
+      strokeDasharray: DASH_PATTERNS[appearance.lineStyle],
+    },
+    markerStart: createMarker(appearance.startArrow, appearance.color),
+    markerEnd: createMarker(appearance.endArrow, appearance.color),
+  };
+};
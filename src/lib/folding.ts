@@ -0,0 +1,88 @@
+import type { Edge, Node } from 'reactflow';
+import type { MindMapNodeData } from '@/store/mindMapStore';
+import { isHierarchyEdge } from '@/lib/tree';
+
+// Folding: a collapsed node hides everything below it. Which nodes are hidden
+// follows from the `collapsed` flags alone, so it is worked out again after
+// every change instead of being kept up to date step by step.
+
+const getChildMap = (edges: Edge[]) => {
+  const childIds = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    if (isHierarchyEdge(edge)) childIds.set(edge.source, [...(childIds.get(edge.source) ?? []), edge.target]);
+  });
+  return childIds;
+};
+
+const getRootIds = (nodes: Node<MindMapNodeData>[], edges: Edge[]) => {
+  const hasParent = new Set(edges.filter(isHierarchyEdge).map((edge) => edge.target));
+  return nodes.filter((node) => !hasParent.has(node.id)).map((node) => node.id);
+};
+
+/** How far below its tree's root each node is, by the shortest way down. */
+export const getNodeDepths = (nodes: Node<MindMapNodeData>[], edges: Edge[]): Map<string, number> => {
+  const childIds = getChildMap(edges);
+  const depths = new Map(getRootIds(nodes, edges).map((id) => [id, 0]));
+  const queue = [...depths.keys()];
+  for (let i = 0; i < queue.length; i += 1) {
+    (childIds.get(queue[i]) ?? []).forEach((childId) => {
+      if (depths.has(childId)) return;
+      depths.set(childId, depths.get(queue[i])! + 1);
+      queue.push(childId);
+    });
+  }
+  return depths;
+};
+
+/**
+ * Hides every node that can only be reached through a collapsed node, and
+ * every edge with a hidden end. Nodes that only sit on a loop are reached from
+ * nowhere and stay visible. The given arrays are returned when nothing changed.
+ */
+export const applyFolding = (
+  nodes: Node<MindMapNodeData>[],
+  edges: Edge[]
+): { nodes: Node<MindMapNodeData>[]; edges: Edge[] } => {
+  const collapsed = new Set(nodes.filter((node) => node.data.collapsed).map((node) => node.id));
+  const childIds = getChildMap(edges);
+
+  // Everything below a collapsed node, minus what is reachable around it.
+  const walk = (startIds: string[], skipBelow: (id: string) => boolean) => {
+    const reached = new Set<string>();
+    const queue = [...startIds];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (reached.has(id)) continue;
+      reached.add(id);
+      if (!skipBelow(id)) queue.push(...(childIds.get(id) ?? []));
+    }
+    return reached;
+  };
+  const rootIds = getRootIds(nodes, edges);
+  const reachable = walk(rootIds, () => false);
+  const loopIds = nodes.filter((node) => !reachable.has(node.id)).map((node) => node.id);
+  const folded = walk([...collapsed].flatMap((id) => childIds.get(id) ?? []), () => false);
+  const open = walk([...rootIds, ...loopIds], (id) => collapsed.has(id));
+  const hiddenIds = new Set([...folded].filter((id) => !open.has(id)));
+
+  let nodesChanged = false;
+  const foldedNodes = nodes.map((node) => {
+    const hidden = hiddenIds.has(node.id);
+    if (!!node.hidden === hidden) return node;
+    nodesChanged = true;
+    return { ...node, hidden };
+  });
+
+  let edgesChanged = false;
+  const foldedEdges = edges.map((edge) => {
+    const hidden = hiddenIds.has(edge.source) || hiddenIds.has(edge.target);
+    if (!!edge.hidden === hidden) return edge;
+    edgesChanged = true;
+    return { ...edge, hidden };
+  });
+
+  return {
+    nodes: nodesChanged ? foldedNodes : nodes,
+    edges: edgesChanged ? foldedEdges : edges,
+  };
+};
@@ -0,0 +1,23 @@
+import { Arrange, Arrangement, SIBLING_GAP } from './types';
+import { measureTree, placeTree } from './tree';
+
+// The classic mind map: the root's branches are shared between its right and
+// left side so that both sides end up about as tall, keeping their order.
+// Branches pinned to a side stay there and count towards its height.
+export const arrangeBalanced: Arrange = (root) => {
+  const heights = root.children.map((child) => measureTree(child, 'right').cross + SIBLING_GAP);
+  const half = heights.reduce((sum, height) => sum + height, 0) / 2;
+
+  let rightHeight = root.children.reduce((sum, child, i) => (child.side === 'right' ? sum + heights[i] : sum), 0);
+  const onRight = root.children.map((child, i) => {
+    if (child.side) return child.side === 'right';
+    if (rightHeight >= half) return false;
+    rightHeight += heights[i];
+    return true;
+  });
+
+  const arrangement: Arrangement = new Map([[root.id, { x: 0, y: 0 }]]);
+  placeTree({ ...root, children: root.children.filter((_, i) => onRight[i]) }, { x: 0, y: 0 }, 'right', arrangement);
+  placeTree({ ...root, children: root.children.filter((_, i) => !onRight[i]) }, { x: 0, y: 0 }, 'left', arrangement);
+  return arrangement;
+};
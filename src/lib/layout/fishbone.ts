@@ -0,0 +1,51 @@
+import { Arrange, Arrangement, LEVEL_GAP, SIBLING_GAP } from './types';
+import { measureTree, placeTree } from './tree';
+
+// Ishikawa diagram: the root is the head on the right and the spine runs left
+// from it. The root's branches are the bones, alternating above and below the
+// spine; their children are the causes, listed between the bone and the spine.
+// Anything deeper grows to the left of its cause.
+
+// How far a cause list is indented from the right edge of its bone's column.
+const CAUSE_INDENT = 24;
+
+export const arrangeFishbone: Arrange = (root) => {
+  const arrangement: Arrangement = new Map([[root.id, { x: 0, y: 0 }]]);
+  const spineY = root.height / 2;
+  let columnRight = -LEVEL_GAP;
+
+  for (let i = 0; i < root.children.length; i += 2) {
+    const column = root.children.slice(i, i + 2);
+    const causeExtents = column.map((bone) => bone.children.map((cause) => measureTree(cause, 'left')));
+    const columnWidth = Math.max(
+      ...column.map((bone, j) =>
+        Math.max(bone.width, CAUSE_INDENT + Math.max(0, ...causeExtents[j].map((extent) => extent.main)))
+      )
+    );
+
+    column.forEach((bone, j) => {
+      const above = j === 0;
+      const extents = causeExtents[j];
+      const causesHeight = extents.reduce((sum, extent, k) => sum + extent.cross + (k > 0 ? SIBLING_GAP : 0), 0);
+      const listGap = bone.children.length > 0 ? SIBLING_GAP : 0;
+
+      const boneY = above
+        ? spineY - LEVEL_GAP / 2 - causesHeight - listGap - bone.height
+        : spineY + LEVEL_GAP / 2 + causesHeight + listGap;
+      arrangement.set(bone.id, { x: columnRight - bone.width, y: boneY, side: 'left' });
+
+      // Causes read from the bone towards the spine.
+      let top = above ? boneY + bone.height + listGap : spineY + LEVEL_GAP / 2;
+      bone.children.forEach((cause, k) => {
+        const band = extents[k].cross;
+        const position = { x: columnRight - CAUSE_INDENT - cause.width, y: top + (band - cause.height) / 2 };
+        arrangement.set(cause.id, { ...position, side: above ? 'bottom' : 'top' });
+        placeTree(cause, position, 'left', arrangement);
+        top += band + SIBLING_GAP;
+      });
+    });
+
+    columnRight -= columnWidth + LEVEL_GAP;
+  }
+  return arrangement;
+};
@@ -0,0 +1,257 @@
+import type { Edge, Node } from 'reactflow';
+import type { LayoutKind, MindMapNodeData } from '@/store/mindMapStore';
+import { isHierarchyEdge } from '@/lib/tree';
+import { Arrange, Arrangement, LayoutNode, Placement, Side, SIBLING_GAP } from './types';
+import { arrangeOrgChart, arrangeRightTree } from './tree';
+import { arrangeBalanced } from './balanced';
+import { arrangeRadial } from './radial';
+import { arrangeFishbone } from './fishbone';
+import { arrangeManual } from './manual';
+
+export type { Side } from './types';
+
+const LAYOUTS: Record<LayoutKind, Arrange> = {
+  manual: arrangeManual,
+  'right-tree': arrangeRightTree,
+  balanced: arrangeBalanced,
+  'org-chart': arrangeOrgChart,
+  radial: arrangeRadial,
+  fishbone: arrangeFishbone,
+};
+
+export const layoutOptions: { value: LayoutKind; label: string; description: string }[] = [
+  { value: 'right-tree', label: 'Right Tree', description: 'Branches grow to the right.' },
+  { value: 'balanced', label: 'Mind Map', description: 'Branches shared between both sides.' },
+  { value: 'org-chart', label: 'Org Chart', description: 'Branches grow downwards.' },
+  { value: 'radial', label: 'Radial', description: 'Levels on rings around the center.' },
+  { value: 'fishbone', label: 'Fishbone', description: 'Causes along a spine to the left.' },
+  { value: 'manual', label: 'Manual', description: 'Nodes stay where you drag them.' },
+];
+
+// Nodes React Flow has not measured yet are assumed to be about this large.
+const DEFAULT_WIDTH = 160;
+const DEFAULT_HEIGHT = 56;
+
+// The handles an edge uses when its child hangs from `side` of the parent.
+// Null is a node's first handle of that type: right for sources, left for targets.
+const SIDE_HANDLES: Record<Side, { source: string | null; target: string | null }> = {
+  right: { source: null, target: null },
+  left: { source: 'left', target: 'right' },
+  bottom: { source: 'bottom', target: 'top' },
+  top: { source: 'top', target: 'bottom' },
+};
+
+/** The layout `node` arranges its children with, given its parent's. */
+export const getNodeLayout = (node: Node<MindMapNodeData>, inherited: LayoutKind): LayoutKind =>
+  node.data.layoutType === 'structure' && node.data.structure ? node.data.structure : inherited;
+
+interface Forest {
+  roots: LayoutNode[];
+  /** The parent each node is arranged under; free graphs may have others. */
+  parents: Map<string, string>;
+}
+
+// The visible nodes as trees, children in list order and then in the order
+// they were connected. A node with several parents is arranged under the first
+// one reached; nodes only reachable through a loop are left alone.
+const buildForest = (nodes: Node<MindMapNodeData>[], edges: Edge[], defaultLayout: LayoutKind): Forest => {
+  const visible = new Map(nodes.filter((node) => !node.hidden).map((node) => [node.id, node]));
+  const childIds = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  edges.forEach((edge) => {
+    if (!isHierarchyEdge(edge) || !visible.has(edge.source) || !visible.has(edge.target)) return;
+    childIds.set(edge.source, [...(childIds.get(edge.source) ?? []), edge.target]);
+    hasParent.add(edge.target);
+  });
+
+  const parents = new Map<string, string>();
+  const visited = new Set<string>();
+  const build = (node: Node<MindMapNodeData>, inherited: LayoutKind): LayoutNode => {
+    visited.add(node.id);
+    const layout = getNodeLayout(node, inherited);
+    const children: LayoutNode[] = [];
+    (childIds.get(node.id) ?? [])
+      .map((id) => visible.get(id)!)
+      .sort((a, b) => (a.data.order ?? Infinity) - (b.data.order ?? Infinity))
+      .forEach((child) => {
+        if (visited.has(child.id)) return;
+        parents.set(child.id, node.id);
+        children.push(build(child, layout));
+      });
+    return {
+      id: node.id,
+      x: node.position.x,
+      y: node.position.y,
+      width: node.width ?? DEFAULT_WIDTH,
+      height: node.height ?? DEFAULT_HEIGHT,
+      layout,
+      children,
+      stacked: node.data.layoutType === 'stacked',
+      side: node.data.side,
+    };
+  };
+
+  const roots = [...visible.values()]
+    .filter((node) => !hasParent.has(node.id))
+    .map((node) => build(node, defaultLayout));
+  return { roots, parents };
+};
+
+type Sizes = Map<string, { width: number; height: number }>;
+
+interface Block {
+  /** Relative to the top-left corner of the subtree's root. */
+  arrangement: Arrangement;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  /** For a stacked list, the ids of its items. */
+  items?: string[];
+}
+
+const boundsOf = (arrangement: Arrangement, sizes: Sizes) => {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  arrangement.forEach((placement, id) => {
+    const size = sizes.get(id)!;
+    bounds.minX = Math.min(bounds.minX, placement.x);
+    bounds.minY = Math.min(bounds.minY, placement.y);
+    bounds.maxX = Math.max(bounds.maxX, placement.x + size.width);
+    bounds.maxY = Math.max(bounds.maxY, placement.y + size.height);
+  });
+  return bounds;
+};
+
+// A block as a leaf of the layout it takes part in. `anchor` is the node the
+// block is relative to; the box starts where the block does.
+const asBox = (id: string, anchor: LayoutNode, block: Block): LayoutNode => ({
+  ...anchor,
+  id,
+  x: anchor.x + block.minX,
+  y: anchor.y + block.minY,
+  width: block.maxX - block.minX,
+  height: block.maxY - block.minY,
+  children: [],
+  block: true,
+});
+
+// Stacked children in a column, in order, each below the whole subtree of the
+// one before it. Relative to the first item, which stays where the list goes.
+const arrangeList = (items: LayoutNode[], sizes: Sizes): Block => {
+  const arrangement: Arrangement = new Map();
+  let top = 0;
+  items.forEach((item, i) => {
+    const block = arrangeSubtree(item, sizes);
+    if (i === 0) top = block.minY;
+    const y = top - block.minY;
+    block.arrangement.forEach((placement, id) => {
+      arrangement.set(id, { ...placement, y: y + placement.y });
+    });
+    top += block.maxY - block.minY + SIBLING_GAP;
+  });
+  return { arrangement, ...boundsOf(arrangement, sizes), items: items.map((item) => item.id) };
+};
+
+const arrangeSubtree = (root: LayoutNode, sizes: Sizes): Block => {
+  // Children with a layout of their own, and each list of stacked children,
+  // are arranged first and take part in this layout as a single box.
+  const blocks = new Map<string, Block>();
+  const toRegion = (node: LayoutNode): LayoutNode => {
+    const items = node.children.filter((child) => child.stacked);
+    const children: LayoutNode[] = [];
+    node.children.forEach((child) => {
+      if (child.stacked) {
+        if (child !== items[0]) return;
+        const id = `${node.id}:stacked`;
+        const block = arrangeList(items, sizes);
+        blocks.set(id, block);
+        children.push(asBox(id, child, block));
+      } else if (child.layout === root.layout) {
+        children.push(toRegion(child));
+      } else {
+        const block = arrangeSubtree(child, sizes);
+        blocks.set(child.id, block);
+        children.push(asBox(child.id, child, block));
+      }
+    });
+    return { ...node, children };
+  };
+
+  const arrangement = LAYOUTS[root.layout](toRegion(root));
+  const origin = arrangement.get(root.id)!;
+  const result: Arrangement = new Map();
+  arrangement.forEach((placement, id) => {
+    const x = placement.x - origin.x;
+    const y = placement.y - origin.y;
+    const block = blocks.get(id);
+    if (!block) {
+      result.set(id, { ...placement, x, y });
+      return;
+    }
+    block.arrangement.forEach((inner, innerId) => {
+      let side = innerId === id ? placement.side : inner.side;
+      // List items hang from the side of the parent their list is on.
+      if (block.items?.includes(innerId)) {
+        side = placement.side === 'left' ? 'left' : 'right';
+      }
+      result.set(innerId, { x: x - block.minX + inner.x, y: y - block.minY + inner.y, side });
+    });
+  });
+
+  return { arrangement: result, ...boundsOf(result, sizes) };
+};
+
+/**
+ * Moves the visible nodes of every tree to where its layout puts them, and
+ * points each hierarchy edge at the side its child hangs from. Tree roots stay
+ * where they are. The given arrays are returned when nothing changed.
+ */
+export const arrangeMap = (
+  nodes: Node<MindMapNodeData>[],
+  edges: Edge[],
+  defaultLayout: LayoutKind
+): { nodes: Node<MindMapNodeData>[]; edges: Edge[] } => {
+  const { roots, parents } = buildForest(nodes, edges, defaultLayout);
+  const sizes = new Map<string, { width: number; height: number }>();
+  const collectSizes = (node: LayoutNode) => {
+    sizes.set(node.id, { width: node.width, height: node.height });
+    node.children.forEach(collectSizes);
+  };
+  roots.forEach(collectSizes);
+
+  const placements = new Map<string, Placement>();
+  roots.forEach((root) => {
+    if (root.children.length === 0) return;
+    arrangeSubtree(root, sizes).arrangement.forEach((placement, id) => {
+      if (id === root.id) return;
+      placements.set(id, {
+        ...placement,
+        x: Math.round(root.x + placement.x),
+        y: Math.round(root.y + placement.y),
+      });
+    });
+  });
+
+  let nodesChanged = false;
+  const arrangedNodes = nodes.map((node) => {
+    const placement = placements.get(node.id);
+    if (!placement || (placement.x === node.position.x && placement.y === node.position.y)) return node;
+    nodesChanged = true;
+    return { ...node, position: { x: placement.x, y: placement.y } };
+  });
+
+  let edgesChanged = false;
+  const arrangedEdges = edges.map((edge) => {
+    const side = placements.get(edge.target)?.side;
+    if (!side || parents.get(edge.target) !== edge.source || !isHierarchyEdge(edge)) return edge;
+    const handles = SIDE_HANDLES[side];
+    if ((edge.sourceHandle ?? null) === handles.source && (edge.targetHandle ?? null) === handles.target) return edge;
+    edgesChanged = true;
+    return { ...edge, sourceHandle: handles.source, targetHandle: handles.target };
+  });
+
+  return {
+    nodes: nodesChanged ? arrangedNodes : nodes,
+    edges: edgesChanged ? arrangedEdges : edges,
+  };
+};
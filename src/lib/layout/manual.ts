@@ -0,0 +1,13 @@
+import { Arrange, Arrangement, LayoutNode } from './types';
+
+// Keeps every node where the user put it. Nested subtrees with a layout of
+// their own are still arranged, around wherever their root was left.
+export const arrangeManual: Arrange = (root) => {
+  const arrangement: Arrangement = new Map();
+  const visit = (node: LayoutNode) => {
+    arrangement.set(node.id, { x: node.x, y: node.y });
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return arrangement;
+};
@@ -0,0 +1,68 @@
+import { Arrange, Arrangement, LayoutNode, LEVEL_GAP, SIBLING_GAP, Side } from './types';
+
+// Nodes on rings around the root, one ring per level. Every subtree gets a
+// wedge of the circle in proportion to its number of leaves, so branches never
+// cross; each ring is pushed out until its nodes fit around it.
+
+const countLeaves = (node: LayoutNode, leaves: Map<string, number>): number => {
+  const count = node.children.length === 0
+    ? 1
+    : node.children.reduce((sum, child) => sum + countLeaves(child, leaves), 0);
+  leaves.set(node.id, count);
+  return count;
+};
+
+const extentOf = (node: LayoutNode) => Math.max(node.width, node.height);
+
+const ringRadii = (root: LayoutNode) => {
+  const levels: LayoutNode[][] = [[root]];
+  while (levels[levels.length - 1].some((node) => node.children.length > 0)) {
+    levels.push(levels[levels.length - 1].flatMap((node) => node.children));
+  }
+
+  const radii = [0];
+  for (let depth = 1; depth < levels.length; depth += 1) {
+    const previous = Math.max(...levels[depth - 1].map(extentOf));
+    const current = Math.max(...levels[depth].map(extentOf));
+    const circumference = levels[depth].reduce((sum, node) => sum + extentOf(node) + SIBLING_GAP, 0);
+    radii.push(Math.max(radii[depth - 1] + previous / 2 + LEVEL_GAP + current / 2, circumference / (2 * Math.PI)));
+  }
+  return radii;
+};
+
+const sideBetween = (dx: number, dy: number): Side => {
+  if (Math.abs(dx) >= Math.abs(dy)) return dx >= 0 ? 'right' : 'left';
+  return dy >= 0 ? 'bottom' : 'top';
+};
+
+export const arrangeRadial: Arrange = (root) => {
+  const leaves = new Map<string, number>();
+  countLeaves(root, leaves);
+  const radii = ringRadii(root);
+  const center = { x: root.width / 2, y: root.height / 2 };
+  const arrangement: Arrangement = new Map([[root.id, { x: 0, y: 0 }]]);
+
+  const place = (node: LayoutNode, parentCenter: { x: number; y: number }, start: number, end: number, depth: number) => {
+    const total = leaves.get(node.id)!;
+    let angle = start;
+    node.children.forEach((child) => {
+      const span = ((end - start) * leaves.get(child.id)!) / total;
+      const middle = angle + span / 2;
+      const childCenter = {
+        x: center.x + radii[depth + 1] * Math.cos(middle),
+        y: center.y + radii[depth + 1] * Math.sin(middle),
+      };
+      arrangement.set(child.id, {
+        x: childCenter.x - child.width / 2,
+        y: childCenter.y - child.height / 2,
+        side: sideBetween(childCenter.x - parentCenter.x, childCenter.y - parentCenter.y),
+      });
+      place(child, childCenter, angle, angle + span, depth + 1);
+      angle += span;
+    });
+  };
+
+  // Start on the left so that a single branch lands to the right of the root.
+  place(root, center, -Math.PI, Math.PI, 0);
+  return arrangement;
+};
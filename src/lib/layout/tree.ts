@@ -0,0 +1,104 @@
+import { Arrange, Arrangement, LayoutNode, LEVEL_GAP, SIBLING_GAP, Side } from './types';
+
+// A tidy tree growing towards one side: each child gets a band across the
+// growth direction as wide as its own subtree, and the bands are centered on
+// the parent. The right tree, the org chart and both halves of the balanced
+// mind map are all this layout in a different direction.
+
+const isHorizontal = (direction: Side) => direction === 'left' || direction === 'right';
+
+// Size of a node across the growth direction.
+const crossSize = (node: LayoutNode, direction: Side) => (isHorizontal(direction) ? node.height : node.width);
+
+// Size of a node along the growth direction.
+const mainSize = (node: LayoutNode, direction: Side) => (isHorizontal(direction) ? node.width : node.height);
+
+export interface TreeExtent {
+  /** How far the subtree reaches along the growth direction. */
+  main: number;
+  /** How much room the subtree needs across the growth direction. */
+  cross: number;
+}
+
+export const measureTree = (
+  node: LayoutNode,
+  direction: Side,
+  extents = new Map<string, TreeExtent>()
+): TreeExtent => {
+  let childrenCross = 0;
+  let childrenMain = 0;
+  node.children.forEach((child, i) => {
+    const extent = measureTree(child, direction, extents);
+    childrenCross += extent.cross + (i > 0 ? SIBLING_GAP : 0);
+    childrenMain = Math.max(childrenMain, extent.main);
+  });
+  const extent = {
+    main: mainSize(node, direction) + (node.children.length > 0 ? LEVEL_GAP + childrenMain : 0),
+    cross: Math.max(crossSize(node, direction), childrenCross),
+  };
+  extents.set(node.id, extent);
+  return extent;
+};
+
+const placeChildren = (
+  node: LayoutNode,
+  position: { x: number; y: number },
+  direction: Side,
+  extents: Map<string, TreeExtent>,
+  arrangement: Arrangement
+) => {
+  const childrenCross = node.children.reduce(
+    (sum, child, i) => sum + extents.get(child.id)!.cross + (i > 0 ? SIBLING_GAP : 0),
+    0
+  );
+  const center = isHorizontal(direction) ? position.y + node.height / 2 : position.x + node.width / 2;
+  let start = center - childrenCross / 2;
+
+  node.children.forEach((child) => {
+    const band = extents.get(child.id)!.cross;
+    const cross = start + (band - crossSize(child, direction)) / 2;
+    let childPosition: { x: number; y: number };
+    switch (direction) {
+      case 'right':
+        childPosition = { x: position.x + node.width + LEVEL_GAP, y: cross };
+        break;
+      case 'left':
+        childPosition = { x: position.x - LEVEL_GAP - child.width, y: cross };
+        break;
+      case 'bottom':
+        childPosition = { x: cross, y: position.y + node.height + LEVEL_GAP };
+        break;
+      case 'top':
+        childPosition = { x: cross, y: position.y - LEVEL_GAP - child.height };
+        break;
+    }
+    arrangement.set(child.id, { ...childPosition, side: direction });
+    placeChildren(child, childPosition, direction, extents, arrangement);
+    start += band + SIBLING_GAP;
+  });
+};
+
+/**
+ * Places the descendants of `node`, which is already at `position`, as a tree
+ * growing towards `direction`.
+ */
+export const placeTree = (
+  node: LayoutNode,
+  position: { x: number; y: number },
+  direction: Side,
+  arrangement: Arrangement
+) => {
+  const extents = new Map<string, TreeExtent>();
+  measureTree(node, direction, extents);
+  placeChildren(node, position, direction, extents, arrangement);
+};
+
+const arrangeTree = (direction: Side): Arrange => (root) => {
+  const arrangement: Arrangement = new Map([[root.id, { x: 0, y: 0 }]]);
+  placeTree(root, { x: 0, y: 0 }, direction, arrangement);
+  return arrangement;
+};
+
+export const arrangeRightTree = arrangeTree('right');
+
+export const arrangeOrgChart = arrangeTree('bottom');
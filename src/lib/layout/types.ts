@@ -0,0 +1,43 @@
+import type { LayoutKind } from '@/store/mindMapStore';
+
+/** The side of its parent a node hangs from; edges leave the parent there. */
+export type Side = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * A node as the layouts see it, with its visible children in order. `x`/`y`
+ * is the current top-left corner, which only the manual layout keeps.
+ *
+ * A child that uses a different layout than its parent is arranged on its own
+ * first and handed to the parent's layout as a `block`: a leaf as large as the
+ * whole arranged subtree. Stacked lists are handed over the same way.
+ */
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  layout: LayoutKind;
+  children: LayoutNode[];
+  /** A list item, kept in a column with the other stacked children of its parent. */
+  stacked?: boolean;
+  /** The side of the root a 'balanced' layout must put this branch on. */
+  side?: 'left' | 'right';
+  block?: boolean;
+}
+
+/** Top-left corner of a node, in any frame the caller shifts afterwards. */
+export interface Placement {
+  x: number;
+  y: number;
+  side?: Side;
+}
+
+export type Arrangement = Map<string, Placement>;
+
+/** Places every node of the tree under `root`, including `root` itself. */
+export type Arrange = (root: LayoutNode) => Arrangement;
+
+// Space between a parent and its children, and between neighbouring subtrees.
+export const LEVEL_GAP = 80;
+export const SIBLING_GAP = 16;
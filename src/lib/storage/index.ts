@@ -0,0 +1,6 @@
+import { createIndexedDbStorage } from './indexedDb';
+
+export type { MapStorage } from './types';
+export { migrateLegacyLocalStorage } from './migrateLocalStorage';
+
+export const mapStorage = createIndexedDbStorage();
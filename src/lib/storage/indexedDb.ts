@@ -0,0 +1,154 @@
+import type { SavedMap, SavedMapSummary, MapSnapshot } from '@/store/mindMapStore';
+import type { MapStorage } from './types';
+
+const DB_NAME = 'mindflow';
+const DB_VERSION = 2;
+
+// Full map records, only read when a map is opened.
+const MAPS_STORE = 'maps';
+// One small summary per map, read to render the library.
+const SUMMARIES_STORE = 'mapSummaries';
+// Editor session state written by zustand `persist`.
+const SESSION_STORE = 'session';
+// Saved versions of maps, indexed by the map they belong to.
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOTS_BY_MAP = 'byMapId';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MAPS_STORE)) {
+        db.createObjectStore(MAPS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+        db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE);
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        snapshots.createIndex(SNAPSHOTS_BY_MAP, 'mapId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const toSummary = (map: SavedMap): SavedMapSummary => ({
+  id: map.id,
+  name: map.name,
+  createdAt: map.createdAt,
+  updatedAt: map.updatedAt,
+  nodeCount: map.nodes.length,
+  edgeCount: map.edges.length,
+});
+
+export const createIndexedDbStorage = (): MapStorage => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase();
+    }
+    return dbPromise;
+  };
+
+  return {
+    listMaps: async () => {
+      const db = await getDb();
+      const store = db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE);
+      return requestToPromise(store.getAll() as IDBRequest<SavedMapSummary[]>);
+    },
+
+    getMap: async (mapId) => {
+      const db = await getDb();
+      const store = db.transaction(MAPS_STORE, 'readonly').objectStore(MAPS_STORE);
+      return requestToPromise(store.get(mapId) as IDBRequest<SavedMap | undefined>);
+    },
+
+    putMap: async (map) => {
+      const db = await getDb();
+      const summary = toSummary(map);
+      const transaction = db.transaction([MAPS_STORE, SUMMARIES_STORE], 'readwrite');
+      transaction.objectStore(MAPS_STORE).put(map);
+      transaction.objectStore(SUMMARIES_STORE).put(summary);
+      await transactionDone(transaction);
+      return summary;
+    },
+
+    deleteMap: async (mapId) => {
+      const db = await getDb();
+      const transaction = db.transaction([MAPS_STORE, SUMMARIES_STORE, SNAPSHOTS_STORE], 'readwrite');
+      transaction.objectStore(MAPS_STORE).delete(mapId);
+      transaction.objectStore(SUMMARIES_STORE).delete(mapId);
+      const snapshots = transaction.objectStore(SNAPSHOTS_STORE);
+      const keysRequest = snapshots.index(SNAPSHOTS_BY_MAP).getAllKeys(mapId);
+      keysRequest.onsuccess = () => keysRequest.result.forEach((key) => snapshots.delete(key));
+      await transactionDone(transaction);
+    },
+
+    listSnapshots: async (mapId) => {
+      const db = await getDb();
+      const index = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE).index(SNAPSHOTS_BY_MAP);
+      return requestToPromise(index.getAll(mapId) as IDBRequest<MapSnapshot[]>);
+    },
+
+    getSnapshot: async (snapshotId) => {
+      const db = await getDb();
+      const store = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE);
+      return requestToPromise(store.get(snapshotId) as IDBRequest<MapSnapshot | undefined>);
+    },
+
+    putSnapshot: async (snapshot) => {
+      const db = await getDb();
+      const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      transaction.objectStore(SNAPSHOTS_STORE).put(snapshot);
+      await transactionDone(transaction);
+    },
+
+    deleteSnapshot: async (snapshotId) => {
+      const db = await getDb();
+      const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      transaction.objectStore(SNAPSHOTS_STORE).delete(snapshotId);
+      await transactionDone(transaction);
+    },
+
+    session: {
+      getItem: async (name) => {
+        const db = await getDb();
+        const store = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE);
+        const value = await requestToPromise(store.get(name) as IDBRequest<string | undefined>);
+        return value ?? null;
+      },
+      setItem: async (name, value) => {
+        const db = await getDb();
+        const transaction = db.transaction(SESSION_STORE, 'readwrite');
+        transaction.objectStore(SESSION_STORE).put(value, name);
+        await transactionDone(transaction);
+      },
+      removeItem: async (name) => {
+        const db = await getDb();
+        const transaction = db.transaction(SESSION_STORE, 'readwrite');
+        transaction.objectStore(SESSION_STORE).delete(name);
+        await transactionDone(transaction);
+      },
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import type { SavedMap } from '@/store/mindMapStore';
+import type { MapStorage } from './types';
+
+// Key used by builds that persisted everything, library included, to localStorage.
+const LEGACY_KEY = 'mindmap-storage';
+
+/**
+ * One-time move of the old localStorage blob into `storage`: every saved map
+ * becomes its own record and the remaining editor session is copied over.
+ * The legacy key is only removed once everything has been written.
+ */
+export const migrateLegacyLocalStorage = async (storage: MapStorage, sessionKey: string) => {
+  const raw = localStorage.getItem(LEGACY_KEY);
+  if (!raw) return;
+
+  let parsed: { state?: Record<string, unknown>; version?: number };
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error('Discarding unreadable legacy mind map storage.');
+    localStorage.removeItem(LEGACY_KEY);
+    return;
+  }
+
+  const { savedMaps, ...session } = parsed.state ?? {};
+
+  if (Array.isArray(savedMaps)) {
+    for (const map of savedMaps as SavedMap[]) {
+      if (map && typeof map.id === 'string' && Array.isArray(map.nodes) && Array.isArray(map.edges)) {
+        await storage.putMap(map);
+      }
+    }
+  }
+
+  await storage.session.setItem(sessionKey, JSON.stringify({ state: session, version: parsed.version ?? 0 }));
+  localStorage.removeItem(LEGACY_KEY);
+};
@@ -0,0 +1,20 @@
+import type { StateStorage } from 'zustand/middleware';
+import type { SavedMap, SavedMapSummary, MapSnapshot } from '@/store/mindMapStore';
+
+/**
+ * Backend for the map library. Maps are stored one record per map, and the
+ * library listing only reads the lightweight summaries.
+ */
+export interface MapStorage {
+  listMaps: () => Promise<SavedMapSummary[]>;
+  getMap: (mapId: string) => Promise<SavedMap | undefined>;
+  putMap: (map: SavedMap) => Promise<SavedMapSummary>;
+  /** Deletes the map together with all of its snapshots. */
+  deleteMap: (mapId: string) => Promise<void>;
+  listSnapshots: (mapId: string) => Promise<MapSnapshot[]>;
+  getSnapshot: (snapshotId: string) => Promise<MapSnapshot | undefined>;
+  putSnapshot: (snapshot: MapSnapshot) => Promise<void>;
+  deleteSnapshot: (snapshotId: string) => Promise<void>;
+  /** Key/value storage for the editor session, used by zustand `persist`. */
+  session: StateStorage;
+}
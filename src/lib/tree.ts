@@ -0,0 +1,129 @@
+import type { Connection, Edge, Node } from 'reactflow';
+import type { MindMapNodeData } from '@/store/mindMapStore';
+
+// Hierarchy helpers. Parent/child links are the edges of the map, except
+// relationship edges, which only say that two nodes are related. Maps can
+// contain cycles, so every walk remembers where it has been.
+
+export const isRelationshipEdge = (edge: Edge) => edge.data?.kind === 'relationship';
+
+export const isHierarchyEdge = (edge: Edge) => !isRelationshipEdge(edge);
+
+export const getParentId = (edges: Edge[], nodeId: string): string | undefined =>
+  edges.find((edge) => edge.target === nodeId && isHierarchyEdge(edge))?.source;
+
+// `rootIds` plus everything below them.
+export const getDescendantIds = (edges: Edge[], rootIds: Iterable<string>): Set<string> => {
+  const ids = new Set<string>();
+  const queue = [...rootIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (ids.has(id)) continue;
+    ids.add(id);
+    edges.forEach((edge) => edge.source === id && isHierarchyEdge(edge) && queue.push(edge.target));
+  }
+  return ids;
+};
+
+// The closest ancestor of `nodeId` that is not in `excluded`.
+export const getClosestAncestorOutside = (edges: Edge[], nodeId: string, excluded: Set<string>) => {
+  const seen = new Set<string>([nodeId]);
+  let current = getParentId(edges, nodeId);
+  while (current && excluded.has(current) && !seen.has(current)) {
+    seen.add(current);
+    current = getParentId(edges, current);
+  }
+  return current && !excluded.has(current) ? current : undefined;
+};
+
+export const getChildIds = (edges: Edge[], nodeId: string): string[] =>
+  edges.filter((edge) => edge.source === nodeId && isHierarchyEdge(edge)).map((edge) => edge.target);
+
+// Stacked list items by their number first, then the other children in the
+// order they were connected. This is the order layouts and exports use.
+const sortSiblings = (ids: string[], byId: Map<string, Node<MindMapNodeData>>) =>
+  [...ids].sort((a, b) => (byId.get(a)?.data.order ?? Infinity) - (byId.get(b)?.data.order ?? Infinity));
+
+export const getOrderedChildIds = (nodes: Node<MindMapNodeData>[], edges: Edge[], nodeId: string): string[] =>
+  sortSiblings(getChildIds(edges, nodeId), new Map(nodes.map((node) => [node.id, node])));
+
+// The siblings `nodeId` can trade places with, itself included, in order: the
+// other items of its stacked list, or else its parent's other children.
+export const getSiblingIds = (nodes: Node<MindMapNodeData>[], edges: Edge[], nodeId: string): string[] => {
+  const parentId = getParentId(edges, nodeId);
+  if (!parentId) return [nodeId];
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const isListItem = (id: string) => byId.get(id)?.data.order !== undefined;
+  return getOrderedChildIds(nodes, edges, parentId).filter((id) => isListItem(id) === isListItem(nodeId));
+};
+
+// The ordered children of every node at once, for walks over the whole map.
+export const getOrderedChildMap = (nodes: Node<MindMapNodeData>[], edges: Edge[]): Map<string, string[]> => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const childIds = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    if (!isHierarchyEdge(edge) || !byId.has(edge.source) || !byId.has(edge.target)) return;
+    childIds.set(edge.source, [...(childIds.get(edge.source) ?? []), edge.target]);
+  });
+  childIds.forEach((ids, id) => childIds.set(id, sortSiblings(ids, byId)));
+  return childIds;
+};
+
+// Every node once, each parent before its children and siblings in order.
+// Nodes only reachable through a loop come last, in their original order.
+export const sortInTreeOrder = (nodes: Node<MindMapNodeData>[], edges: Edge[]): Node<MindMapNodeData>[] => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const childIds = getOrderedChildMap(nodes, edges);
+  const hasParent = new Set([...childIds.values()].flat());
+
+  const sorted: Node<MindMapNodeData>[] = [];
+  const visited = new Set<string>();
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    sorted.push(byId.get(id)!);
+    (childIds.get(id) ?? []).forEach(visit);
+  };
+  nodes.filter((node) => !hasParent.has(node.id)).forEach((node) => visit(node.id));
+  nodes.forEach((node) => visit(node.id));
+  return sorted;
+};
+
+// Whether `nodeId` can be moved under `parentId` without creating a cycle.
+export const canReparent = (edges: Edge[], nodeId: string, parentId: string) =>
+  nodeId !== 'root' &&
+  getParentId(edges, nodeId) !== parentId &&
+  !getDescendantIds(edges, [nodeId]).has(parentId);
+
+/**
+ * Why `connection` would break the tree (a node with two parents, a loop, or
+ * a parent for the root), or null when it keeps the map a tree.
+ */
+export const getTreeConnectionError = (
+  edges: Edge[],
+  { source, target }: Pick<Connection, 'source' | 'target'>
+): string | null => {
+  if (!source || !target) return 'The connection has no start or end node.';
+  if (source === target) return 'A node cannot be connected to itself.';
+  if (target === 'root') return 'The central idea cannot have a parent.';
+  if (getParentId(edges, target)) return 'That node already has a parent. Drag it onto the new parent to move it.';
+  if (getDescendantIds(edges, [target]).has(source)) return 'This connection would create a loop.';
+  return null;
+};
+
+/**
+ * Why the hierarchy of `edges` is not a tree, or null when it is one. Each
+ * connection is checked against the ones before it, as if drawn in order.
+ */
+export const getTreeError = (edges: Edge[]): string | null => {
+  const checked: Edge[] = [];
+  for (const edge of edges.filter(isHierarchyEdge)) {
+    if (getTreeConnectionError(checked, edge)) {
+      if (edge.target === 'root') return 'The central idea has a parent.';
+      if (getParentId(checked, edge.target)) return 'A node has more than one parent.';
+      return 'Some connections form a loop.';
+    }
+    checked.push(edge);
+  }
+  return null;
+};
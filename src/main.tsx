@@ -1,5 +1,10 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { initializeStore } from "./store/mindMapStore";
 
-createRoot(document.getElementById("root")!).render(<App />);
+initializeStore()
+  .catch((e) => console.error("Failed to restore saved data:", e))
+  .finally(() => {
+    createRoot(document.getElementById("root")!).render(<App />);
+  });
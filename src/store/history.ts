@@ -0,0 +1,209 @@
+import type { Node, Edge } from 'reactflow';
+import type { EdgeUpdate, MindMapNodeData } from './mindMapStore';
+
+/** A user action that can be undone, as listed in the history panel. */
+export interface HistoryAction {
+  label: string;
+  /** Node the action is about; its current label is shown next to `label`. */
+  nodeId?: string;
+  timestamp: number;
+  /** Consecutive actions with the same key inside the coalesce window merge into one step. */
+  coalesceKey?: string;
+}
+
+// Snapshots share every node and edge object that did not change between them,
+// so an entry only costs the arrays themselves plus whatever was edited.
+// Entries on the undo stack hold the state before `action`; entries on the redo
+// stack hold the state after it.
+export interface HistoryEntry {
+  nodes: Node<MindMapNodeData>[];
+  edges: Edge[];
+  action: HistoryAction;
+}
+
+type Snapshot = Pick<HistoryEntry, 'nodes' | 'edges'>;
+
+export interface HistoryStacks {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+// Edits closer together than this, on the same field, form one undo step.
+export const COALESCE_WINDOW_MS = 1000;
+// How many closed maps keep their undo history for when they are reopened.
+const MAX_CACHED_HISTORIES = 10;
+
+// Undo history of maps that are not currently open, keyed by map id. History
+// only lives in memory and is never persisted.
+const historyByMap = new Map<string, HistoryStacks>();
+
+export const createEntry = (
+  { nodes, edges }: Snapshot,
+  action: Omit<HistoryAction, 'timestamp'>
+): HistoryEntry => ({
+  nodes,
+  edges,
+  action: { ...action, timestamp: Date.now() },
+});
+
+export const trimHistory = (entries: HistoryEntry[], limit: number) =>
+  entries.length > limit ? entries.slice(entries.length - limit) : entries;
+
+/**
+ * Appends `entry` to the undo stack, or extends the previous entry when both
+ * belong to the same burst of edits. The merged entry keeps the snapshot from
+ * before the burst so that one undo reverts all of it.
+ */
+export const pushHistory = (past: HistoryEntry[], entry: HistoryEntry, limit: number): HistoryEntry[] => {
+  const last = past[past.length - 1];
+  if (
+    entry.action.coalesceKey &&
+    last?.action.coalesceKey === entry.action.coalesceKey &&
+    entry.action.timestamp - last.action.timestamp < COALESCE_WINDOW_MS
+  ) {
+    return [...past.slice(0, -1), { ...last, action: entry.action }];
+  }
+  return trimHistory([...past, entry], limit);
+};
+
+/**
+ * Moves to the state after the first `step` actions of the timeline, undoing
+ * or redoing as many actions as needed in one go.
+ */
+export const jumpHistory = (stacks: HistoryStacks, present: Snapshot, step: number) => {
+  const { past, future } = stacks;
+  const redoable = [...future].reverse();
+  // Every state in order, oldest first; the present sits at index `past.length`.
+  const states: Snapshot[] = [...past, present, ...redoable];
+  // actions[k] leads from states[k] to states[k + 1].
+  const actions = [...past, ...redoable].map((entry) => entry.action);
+  const target = Math.max(0, Math.min(step, states.length - 1));
+
+  return {
+    past: states.slice(0, target).map(({ nodes, edges }, i) => ({ nodes, edges, action: actions[i] })),
+    future: states
+      .slice(target + 1)
+      .map(({ nodes, edges }, i) => ({ nodes, edges, action: actions[target + i] }))
+      .reverse(),
+    nodes: states[target].nodes,
+    edges: states[target].edges,
+  };
+};
+
+// Human-readable label for an `updateNodeData` call.
+export const describeNodeUpdate = (data: Partial<MindMapNodeData>): string => {
+  const fields = Object.keys(data);
+  if (fields.length === 1) {
+    switch (fields[0]) {
+      case 'label':
+        return `Rename to '${data.label}'`;
+      case 'description':
+        return 'Edit description';
+      case 'color':
+        return `Change color to ${data.color}`;
+      case 'textColor':
+        return `Change text color to ${data.textColor}`;
+      case 'fontFamily':
+        return `Change font to ${data.fontFamily}`;
+      case 'textSize':
+        return `Change text size to ${data.textSize}`;
+      case 'imageUrl':
+        return 'Change image';
+      case 'backgroundColor':
+        return data.backgroundColor ? 'Change background color' : 'Clear background color';
+      case 'borderColor':
+        return data.borderColor ? 'Change border color' : 'Clear border color';
+    }
+  }
+  if ('color' in data) {
+    return `Change color to ${data.color}`;
+  }
+  return 'Edit node';
+};
+
+// Human-readable label for an `updateEdge` call.
+export const describeEdgeUpdate = (update: EdgeUpdate): string => {
+  const fields = Object.keys(update);
+  if (fields.length === 1) {
+    switch (fields[0]) {
+      case 'label':
+        return update.label ? 'Edit connection label' : 'Remove connection label';
+      case 'color':
+        return 'Change connection color';
+      case 'width':
+        return `Change connection width to ${update.width}`;
+      case 'lineStyle':
+        return `Use a ${update.lineStyle} connection`;
+      case 'pathType':
+        return 'Change connection path';
+      case 'startArrow':
+      case 'endArrow':
+        return 'Change connection arrows';
+    }
+  }
+  return 'Edit connection';
+};
+
+const nodeContentChanged = (a: Node<MindMapNodeData>, b: Node<MindMapNodeData>) =>
+  a.id !== b.id ||
+  a.data !== b.data ||
+  a.hidden !== b.hidden ||
+  a.style !== b.style ||
+  a.position.x !== b.position.x ||
+  a.position.y !== b.position.y;
+
+const edgeContentChanged = (a: Edge, b: Edge) =>
+  a.id !== b.id ||
+  a.source !== b.source ||
+  a.target !== b.target ||
+  a.sourceHandle !== b.sourceHandle ||
+  a.targetHandle !== b.targetHandle ||
+  a.type !== b.type ||
+  a.data !== b.data ||
+  a.label !== b.label ||
+  a.hidden !== b.hidden ||
+  a.style !== b.style ||
+  a.markerStart !== b.markerStart ||
+  a.markerEnd !== b.markerEnd;
+
+/**
+ * True when the map content differs between two snapshots. Selection,
+ * dragging flags and measured sizes are ignored: they are not undoable.
+ */
+export const hasContentChanged = (before: Snapshot, after: Snapshot) => {
+  if (before.nodes !== after.nodes) {
+    if (before.nodes.length !== after.nodes.length) return true;
+    if (before.nodes.some((node, i) => node !== after.nodes[i] && nodeContentChanged(node, after.nodes[i]))) {
+      return true;
+    }
+  }
+  if (before.edges !== after.edges) {
+    if (before.edges.length !== after.edges.length) return true;
+    if (before.edges.some((edge, i) => edge !== after.edges[i] && edgeContentChanged(edge, after.edges[i]))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Parks the open map's history and returns the stacks for the map being opened.
+export const switchHistory = (fromMapId: string, current: HistoryStacks, toMapId: string): HistoryStacks => {
+  if (fromMapId === toMapId) return current;
+
+  if (current.past.length || current.future.length) {
+    historyByMap.delete(fromMapId);
+    historyByMap.set(fromMapId, current);
+    if (historyByMap.size > MAX_CACHED_HISTORIES) {
+      historyByMap.delete(historyByMap.keys().next().value);
+    }
+  }
+
+  const next = historyByMap.get(toMapId) ?? { past: [], future: [] };
+  historyByMap.delete(toMapId);
+  return next;
+};
+
+export const forgetHistory = (mapId: string) => {
+  historyByMap.delete(mapId);
+};
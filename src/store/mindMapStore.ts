@@ -1,22 +1,80 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import {
   Node,
   Edge,
   NodeChange,
+  NodeSelectionChange,
   EdgeChange,
+  EdgeSelectionChange,
   applyNodeChanges,
   applyEdgeChanges,
   Connection,
   addEdge,
 } from 'reactflow';
+import { serializeDocument } from '@/lib/document/serialize';
+import { importFile, jsonFormat, MapFormat } from '@/lib/document/formats';
+import { importDocument, ImportResult } from '@/lib/document/import';
+import { importXMind, XMindImportResult } from '@/lib/document/xmind';
+import type { MindMapDocument } from '@/lib/document/schema';
+import { mapStorage, migrateLegacyLocalStorage } from '@/lib/storage';
+import { ClipboardFragment, remapFragment } from '@/lib/clipboard';
+import { arrangeMap } from '@/lib/layout';
+import { applyFolding, getNodeDepths } from '@/lib/folding';
+import {
+  DASH_PATTERNS,
+  DEFAULT_EDGE_COLOR,
+  DEFAULT_EDGE_WIDTH,
+  EdgeAppearance,
+  applyEdgeAppearance,
+  relationshipEdgeDefaults,
+} from '@/lib/edges';
+import {
+  canReparent,
+  getChildIds,
+  getClosestAncestorOutside,
+  getDescendantIds,
+  getOrderedChildIds,
+  getParentId,
+  getSiblingIds,
+  getTreeConnectionError,
+  getTreeError,
+  isHierarchyEdge,
+  isRelationshipEdge,
+} from '@/lib/tree';
+import {
+  HistoryEntry,
+  DEFAULT_HISTORY_LIMIT,
+  createEntry,
+  pushHistory,
+  jumpHistory,
+  describeNodeUpdate,
+  describeEdgeUpdate,
+  trimHistory,
+  hasContentChanged,
+  switchHistory,
+  forgetHistory,
+} from './history';
+
+export type { HistoryEntry, HistoryAction } from './history';
 
 export type NodeColor = 'blue' | 'purple' | 'green' | 'orange' | 'pink' | 'teal' | 'yellow' | 'gray' | 'transparent';
 export type TextColor = 'default' | 'white' | 'black' | 'blue' | 'purple' | 'green' | 'orange' | 'pink' | 'teal' | 'red';
 export type FontFamily = 'default' | 'serif' | 'mono' | 'handwriting' | 'modern' | 'slab' | 'condensed' | 'marker';
 export type TextSize = 'xs' | 'sm' | 'base' | 'lg' | 'xl' | '2xl' | '3xl';
 export type EdgeStyle = 'smoothstep' | 'straight' | 'step' | 'bezier';
-export type EdgeLineStyle = 'solid' | 'dashed';
+export type EdgeLineStyle = 'solid' | 'dashed' | 'dotted';
+// The map-wide styles plus 'mindmap', the rounded step drawn under stacked lists.
+export type EdgePathType = EdgeStyle | 'mindmap';
+// 'tree' rejects connections that give a node a second parent or form a loop;
+// 'free' allows any connection, for diagrams that are not trees.
+export type GraphMode = 'tree' | 'free';
+// Hierarchy edges link a parent to a child. Relationship edges are cross-links
+// between any two nodes and never take part in the hierarchy.
+export type EdgeKind = 'hierarchy' | 'relationship';
+// How children are arranged around their parent. 'manual' leaves nodes where
+// they were dragged; the others move them whenever the tree changes.
+export type LayoutKind = 'manual' | 'right-tree' | 'balanced' | 'org-chart' | 'radial' | 'fishbone';
 export type NodeType = 'text' | 'image';
 
 export interface SubTopic {
@@ -38,6 +96,7 @@ export interface MindMapNodeData {
   textColor?: TextColor;
   textSize?: TextSize;
   topics?: Topic[];
+  tags?: string[];
   order?: number;
   collapsed?: boolean;
   isRoot?: boolean;
@@ -45,10 +104,28 @@ export interface MindMapNodeData {
   backgroundColor?: string;
   nodeType?: NodeType;
   imageUrl?: string;
+  // 'structure' nodes arrange their subtree with `structure` instead of the
+  // layout they would inherit.
   layoutType?: 'default' | 'stacked' | 'structure';
+  structure?: LayoutKind;
+  // The side of the root the 'balanced' layout keeps this branch on; branches
+  // without one are shared out between the sides.
+  side?: 'left' | 'right';
   borderColor?: string;
+  // Attributes an imported outline entry had beyond the ones we read, written
+  // back when the map is exported to the same kind of file.
+  outlineAttributes?: Record<string, string>;
+}
+
+export interface MindMapEdgeData {
+  /** Missing on hierarchy edges, which is every edge created before kinds existed. */
+  kind?: EdgeKind;
+  label?: string;
 }
 
+// A change to one edge: its appearance and its label.
+export type EdgeUpdate = Partial<EdgeAppearance> & Pick<MindMapEdgeData, 'label'>;
+
 export interface SavedMap {
   id: string;
   name: string;
@@ -56,20 +133,78 @@ export interface SavedMap {
   updatedAt: string;
   nodes: Node<MindMapNodeData>[];
   edges: Edge[];
+  graphMode?: GraphMode;
+  layout?: LayoutKind;
+}
+
+export interface SavedMapSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export type SnapshotKind = 'auto' | 'manual';
+
+// A saved version of a map. Automatic snapshots keep the previous content when
+// a map is saved; manual ones are checkpoints the user named.
+export interface MapSnapshot {
+  id: string;
+  mapId: string;
+  name: string;
+  kind: SnapshotKind;
+  createdAt: string;
+  nodes: Node<MindMapNodeData>[];
+  edges: Edge[];
+  // Missing on snapshots taken before maps had graph modes and layouts.
+  graphMode?: GraphMode;
+  layout?: LayoutKind;
+}
+
+export interface HistoryOptions {
+  nodeId?: string;
+  coalesceKey?: string;
+}
+
+// What happens to the children of a deleted node: they go with it, or they
+// move up to the closest surviving ancestor.
+export type DeleteMode = 'subtree' | 'reparent';
+
+export interface SaveOptions {
+  /** Saves triggered by autosave only keep a snapshot every few minutes. */
+  autosave?: boolean;
 }
 
 export interface MindMapState {
   nodes: Node<MindMapNodeData>[];
   edges: Edge[];
+  /** The node single-node tools act on: the most recently selected one. */
   selectedNodeId: string | null;
+  selectedNodeIds: string[];
+  selectedEdgeId: string | null;
   mapName: string;
   mapId: string;
+  // Line settings given to new edges. Existing edges keep their own look.
   edgeStyle: EdgeStyle;
   edgeColor: string;
   edgeLineStyle: EdgeLineStyle;
-  savedMaps: SavedMap[];
-  past: { nodes: Node<MindMapNodeData>[]; edges: Edge[] }[];
-  future: { nodes: Node<MindMapNodeData>[]; edges: Edge[] }[];
+  graphMode: GraphMode;
+  /** Layout of the map's trees, unless a subtree chooses its own. */
+  layout: LayoutKind;
+  /** Kind of edge created by dragging from one handle to another. */
+  connectionKind: EdgeKind;
+  savedMaps: SavedMapSummary[];
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  historyLimit: number;
+  /** Node a dragged node would be moved under if dropped now. */
+  dropTargetId: string | null;
+  /** Node whose branch is the only part of the map on the canvas, if any. */
+  hoistedNodeId: string | null;
+  /** True while the open map has changes that are not in the library yet. */
+  isDirty: boolean;
 
   // Actions
   onNodesChange: (changes: NodeChange[]) => void;
@@ -77,14 +212,44 @@ export interface MindMapState {
   onConnect: (connection: Connection) => void;
   addNode: (parentId?: string, nodeType?: NodeType, layoutType?: 'default' | 'stacked' | 'structure') => void;
   updateNodeData: (nodeId: string, data: Partial<MindMapNodeData>) => void;
-  deleteNode: (nodeId: string) => void;
+  updateNodesData: (nodeIds: string[], data: Partial<MindMapNodeData>) => void;
+  deleteNode: (nodeId: string, mode?: DeleteMode) => number;
+  /** Returns how many nodes were removed. */
+  deleteNodes: (nodeIds: string[], mode?: DeleteMode) => number;
+  deleteEdges: (edgeIds: string[]) => void;
+  pasteFragment: (fragment: ClipboardFragment, parentId?: string) => void;
+  reparentNode: (nodeId: string, parentId: string) => boolean;
+  /** Moves a node to `index` among its siblings (see getSiblingIds). */
+  moveSibling: (nodeId: string, index: number) => boolean;
+  setDropTarget: (nodeId: string | null) => void;
+  /** Shows only `nodeId` and its descendants, or the whole map again for null. */
+  hoistNode: (nodeId: string | null) => void;
   setSelectedNode: (nodeId: string | null) => void;
+  setSelectedNodes: (nodeIds: string[]) => void;
+  setSelectedEdge: (edgeId: string | null) => void;
   setMapName: (name: string) => void;
   setEdgeStyle: (style: EdgeStyle) => void;
   setEdgeColor: (color: string) => void;
   setEdgeLineStyle: (style: EdgeLineStyle) => void;
+  /** Returns false, leaving the mode as it is, when the map is not a tree. */
+  setGraphMode: (mode: GraphMode) => boolean;
+  setLayout: (layout: LayoutKind) => void;
+  /** Gives the subtree of `nodeId` its own layout, or null to inherit again. */
+  setSubtreeLayout: (nodeId: string, layout: LayoutKind | null) => void;
+  /** Re-applies the layouts without recording history. */
+  relayout: () => void;
+  setConnectionKind: (kind: EdgeKind) => void;
+  updateEdge: (edgeId: string, update: EdgeUpdate) => void;
   toggleCollapse: (nodeId: string) => void;
+  expandAll: () => void;
+  collapseAll: () => void;
+  /** Opens the first `level` levels below each root and collapses the rest. */
+  showLevels: (level: number) => void;
   addSibling: (nodeId: string) => void;
+  /** Moves a node under the sibling before it. */
+  indentNode: (nodeId: string) => boolean;
+  /** Moves a node up a level, to just after its parent. */
+  outdentNode: (nodeId: string) => boolean;
   addTopic: (nodeId: string) => void;
   updateTopic: (nodeId: string, topicId: string, label: string) => void;
   deleteTopic: (nodeId: string, topicId: string) => void;
@@ -93,12 +258,30 @@ export interface MindMapState {
   deleteSubTopic: (nodeId: string, topicId: string, subTopicId: string) => void;
   clearMap: () => void;
   exportToJson: () => string;
-  importFromJson: (json: string) => void;
-  saveCurrentMap: () => void;
-  loadMap: (mapId: string) => void;
-  deleteMap: (mapId: string) => void;
+  /** The open map written in `format`, which must be able to write. */
+  exportAs: (format: MapFormat) => string;
+  importFromJson: (json: string) => ImportResult;
+  /** Opens a file of any supported format, picked by its name, as a new map. */
+  importFromFile: (text: string, fileName: string) => ImportResult;
+  /** Opens the first sheet of an XMind file and adds the others to the library. */
+  importFromXMind: (data: ArrayBuffer, fileName: string) => Promise<XMindImportResult>;
+  loadDocument: (doc: MindMapDocument) => void;
+  refreshLibrary: () => Promise<void>;
+  saveCurrentMap: (options?: SaveOptions) => Promise<void>;
+  discardChanges: () => Promise<void>;
+  loadMap: (mapId: string) => Promise<boolean>;
+  deleteMap: (mapId: string) => Promise<void>;
+  listSnapshots: (mapId: string) => Promise<MapSnapshot[]>;
+  createCheckpoint: (mapId: string, name: string) => Promise<void>;
+  restoreSnapshot: (snapshotId: string) => Promise<boolean>;
+  restoreSnapshotAsCopy: (snapshotId: string) => Promise<string | null>;
+  deleteSnapshot: (snapshotId: string) => Promise<void>;
   createNewMap: () => void;
-  addToHistory: () => void;
+  addToHistory: (label?: string, options?: HistoryOptions) => void;
+  beginTransaction: (label?: string, options?: HistoryOptions) => void;
+  commitTransaction: () => void;
+  jumpToHistory: (step: number) => void;
+  setHistoryLimit: (limit: number) => void;
   undo: () => void;
   redo: () => void;
   saveHistory: () => void;
@@ -115,6 +298,148 @@ const initialNodes: Node<MindMapNodeData>[] = [
 
 const initialEdges: Edge[] = [];
 
+const SESSION_KEY = 'mindmap-storage';
+
+// Nodes stay where the user puts them until they pick an automatic layout.
+// Maps from before layouts existed open the same way.
+const DEFAULT_LAYOUT: LayoutKind = 'manual';
+
+// A new hierarchy edge, drawn with the map's current line settings.
+const newEdgeDefaults = (
+  { edgeStyle, edgeColor, edgeLineStyle }: Pick<MindMapState, 'edgeStyle' | 'edgeColor' | 'edgeLineStyle'>,
+  stacked = false
+): Partial<Edge> => ({
+  type: stacked ? 'mindmap' : edgeStyle,
+  animated: false,
+  style: {
+    strokeWidth: DEFAULT_EDGE_WIDTH,
+    stroke: edgeColor,
+    strokeDasharray: DASH_PATTERNS[edgeLineStyle],
+  },
+});
+
+// The hoisted node, unless it has been deleted since.
+const getHoistedNodeId = ({ nodes, hoistedNodeId }: Pick<MindMapState, 'nodes' | 'hoistedNodeId'>) =>
+  hoistedNodeId && nodes.some(n => n.id === hoistedNodeId) ? hoistedNodeId : undefined;
+
+// Fields edited continuously (typing, dragging a color picker). Successive
+// updates to them are merged into one undo step.
+const CONTINUOUS_FIELDS: (keyof MindMapNodeData)[] = ['label', 'description', 'imageUrl', 'backgroundColor', 'borderColor'];
+const CONTINUOUS_EDGE_FIELDS: (keyof EdgeUpdate)[] = ['label', 'color', 'width'];
+
+// The open transaction, if any. While it is open individual actions do not
+// record history; the snapshot taken when it began becomes a single entry.
+let transaction: { depth: number; entry: HistoryEntry } | null = null;
+
+// Automatic snapshots kept per map; manual checkpoints are never pruned.
+const MAX_AUTO_SNAPSHOTS = 10;
+// Minimum time between automatic snapshots taken by autosave.
+const AUTOSAVE_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+const generateSnapshotId = () => {
+  return `snapshot-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+};
+
+const sameContent = (a: Pick<SavedMap, 'nodes' | 'edges'>, b: Pick<SavedMap, 'nodes' | 'edges'>) =>
+  JSON.stringify([a.nodes, a.edges]) === JSON.stringify([b.nodes, b.edges]);
+
+const upsertSummary = (maps: SavedMapSummary[], summary: SavedMapSummary) =>
+  maps.some(m => m.id === summary.id)
+    ? maps.map(m => (m.id === summary.id ? summary : m))
+    : [...maps, summary];
+
+// Stores `map` as an automatic snapshot and prunes the oldest automatic ones.
+const recordAutoSnapshot = async (map: SavedMap, name: string) => {
+  await mapStorage.putSnapshot({
+    id: generateSnapshotId(),
+    mapId: map.id,
+    name,
+    kind: 'auto',
+    createdAt: map.updatedAt,
+    nodes: map.nodes,
+    edges: map.edges,
+    graphMode: map.graphMode,
+    layout: map.layout,
+  });
+
+  const autoSnapshots = (await mapStorage.listSnapshots(map.id))
+    .filter(snapshot => snapshot.kind === 'auto')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  await Promise.all(autoSnapshots.slice(MAX_AUTO_SNAPSHOTS).map(snapshot => mapStorage.deleteSnapshot(snapshot.id)));
+};
+
+const autoSnapshotDue = async (mapId: string) => {
+  const latest = (await mapStorage.listSnapshots(mapId))
+    .filter(snapshot => snapshot.kind === 'auto')
+    .reduce<string | null>((max, snapshot) => (!max || snapshot.createdAt > max ? snapshot.createdAt : max), null);
+  return !latest || Date.now() - new Date(latest).getTime() >= AUTOSAVE_SNAPSHOT_INTERVAL_MS;
+};
+
+// Maps saved before graph modes existed are trees unless their connections
+// say otherwise; those, and any other map that breaks the tree rules, open
+// as free graphs.
+const graphModeFor = (mode: GraphMode = 'tree', edges: Edge[]): GraphMode =>
+  mode === 'tree' && getTreeError(edges) ? 'free' : mode;
+
+// Numbers the stacked children of every parent 1..n, keeping their current
+// order, so list numbers stay contiguous whatever joined or left a list.
+const renumberStackedLists = (nodes: Node<MindMapNodeData>[], edges: Edge[]) => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const lists = new Map<string, Node<MindMapNodeData>[]>();
+  const listed = new Set<string>();
+  edges.forEach(e => {
+    const child = byId.get(e.target);
+    if (!isHierarchyEdge(e) || child?.data.order === undefined || listed.has(child.id)) return;
+    listed.add(child.id);
+    lists.set(e.source, [...(lists.get(e.source) ?? []), child]);
+  });
+
+  const orders = new Map<string, number>();
+  lists.forEach(list => {
+    list
+      .sort((a, b) => (a.data.order ?? 0) - (b.data.order ?? 0))
+      .forEach((n, i) => n.data.order !== i + 1 && orders.set(n.id, i + 1));
+  });
+  if (orders.size === 0) return nodes;
+  return nodes.map(n =>
+    orders.has(n.id) ? { ...n, data: { ...n.data, order: orders.get(n.id) } } : n
+  );
+};
+
+// Lays the map out again after its hierarchy, folding, sizes or settings changed.
+const arrangeTrees = (nodes: Node<MindMapNodeData>[], edges: Edge[], layout: LayoutKind) => {
+  const folded = applyFolding(renumberStackedLists(nodes, edges), edges);
+  return arrangeMap(folded.nodes, folded.edges, layout);
+};
+
+// Opens `nodeId` so that a child added to it can be seen.
+const expandNode = (nodes: Node<MindMapNodeData>[], nodeId: string | undefined) =>
+  nodes.map(n => (n.id === nodeId && n.data.collapsed ? { ...n, data: { ...n.data, collapsed: false } } : n));
+
+// Collapses the nodes with children that `shouldCollapse` picks and opens the rest.
+const setFolding = (
+  nodes: Node<MindMapNodeData>[],
+  edges: Edge[],
+  shouldCollapse: (nodeId: string) => boolean
+) => {
+  const parentIds = new Set(edges.filter(isHierarchyEdge).map(e => e.source));
+  return nodes.map(n => {
+    const collapsed = parentIds.has(n.id) && shouldCollapse(n.id);
+    return !!n.data.collapsed === collapsed ? n : { ...n, data: { ...n.data, collapsed } };
+  });
+};
+
+const patchNodeData = (
+  nodes: Node<MindMapNodeData>[],
+  nodeId: string,
+  data: Partial<MindMapNodeData>
+): Node<MindMapNodeData>[] =>
+  nodes.map((node) =>
+    node.id === nodeId
+      ? { ...node, data: { ...node.data, ...data } }
+      : node
+  );
+
 let nodeIdCounter = 1;
 
 const generateNodeId = () => {
@@ -132,23 +457,73 @@ export const useMindMapStore = create<MindMapState>()(
       nodes: initialNodes,
       edges: initialEdges,
       selectedNodeId: null,
+      selectedNodeIds: [],
+      selectedEdgeId: null,
       mapName: 'Untitled Mind Map',
       mapId: generateMapId(),
       edgeStyle: 'smoothstep',
-      edgeColor: 'hsl(var(--edge-primary))',
+      edgeColor: DEFAULT_EDGE_COLOR,
       edgeLineStyle: 'solid',
+      graphMode: 'tree',
+      layout: DEFAULT_LAYOUT,
+      connectionKind: 'hierarchy',
       savedMaps: [],
       past: [],
       future: [],
+      historyLimit: DEFAULT_HISTORY_LIMIT,
+      isDirty: false,
+      dropTargetId: null,
+      hoistedNodeId: null,
+
+      addToHistory: (label = 'Edit map', options = {}) => {
+        if (transaction) {
+          // The transaction still becomes one entry, named after the last
+          // action inside it: a drag that ends in a reparent reads as such.
+          transaction.entry = {
+            ...transaction.entry,
+            action: { label, ...options, timestamp: transaction.entry.action.timestamp },
+          };
+          return;
+        }
+        const entry = createEntry(get(), { label, ...options });
+        set((state) => ({
+          past: pushHistory(state.past, entry, state.historyLimit),
+          future: [],
+        }));
+      },
+
+      beginTransaction: (label = 'Edit map', options = {}) => {
+        if (transaction) {
+          transaction.depth += 1;
+          return;
+        }
+        transaction = { depth: 1, entry: createEntry(get(), { label, ...options }) };
+      },
+
+      commitTransaction: () => {
+        if (!transaction) return;
+        transaction.depth -= 1;
+        if (transaction.depth > 0) return;
+
+        const { entry } = transaction;
+        transaction = null;
+        if (!hasContentChanged(entry, get())) return;
 
-      addToHistory: () => {
-        const { nodes, edges } = get();
         set((state) => ({
-          past: [...state.past, { nodes, edges }],
+          past: pushHistory(state.past, { ...entry, action: { ...entry.action, timestamp: Date.now() } }, state.historyLimit),
           future: [],
         }));
       },
 
+      setHistoryLimit: (limit) => {
+        const historyLimit = Math.max(1, Math.floor(limit));
+        set((state) => ({
+          historyLimit,
+          past: trimHistory(state.past, historyLimit),
+          future: trimHistory(state.future, historyLimit),
+        }));
+      },
+
       undo: () => {
         const { past, future, nodes, edges } = get();
         if (past.length === 0) return;
@@ -158,7 +533,7 @@ export const useMindMapStore = create<MindMapState>()(
 
         set({
           past: newPast,
-          future: [...future, { nodes, edges }],
+          future: trimHistory([...future, { nodes, edges, action: previous.action }], get().historyLimit),
           nodes: previous.nodes,
           edges: previous.edges,
         });
@@ -172,61 +547,235 @@ export const useMindMapStore = create<MindMapState>()(
         const newFuture = future.slice(0, -1);
 
         set({
-          past: [...past, { nodes, edges }],
+          past: trimHistory([...past, { nodes, edges, action: next.action }], get().historyLimit),
           future: newFuture,
           nodes: next.nodes,
           edges: next.edges,
         });
       },
 
+      jumpToHistory: (step) => {
+        const { past, future, nodes, edges } = get();
+        if (step === past.length) return;
+        set(jumpHistory({ past, future }, { nodes, edges }, step));
+      },
+
       onNodesChange: (changes) => {
-        // Only save history for user-initiated changes that aren't selection or dimensions (dimensions happen on load often)
-        const meaningfulChanges = changes.filter(c => c.type !== 'select' && c.type !== 'dimensions');
-
-        // Handling dragging (position changes)
-        // We probably don't want to save on every single pixel move, but ReactFlow triggers this constantly.
-        // A common strategy is to only save history on 'dragStart' or assume the user handles 'dragStop'.
-        // However, onNodesChange handles the actual update.
-        // For now, let's skip history here for position changes to avoid flood, 
-        // AND reliance on a separate 'onNodeDragStart' or similar if we wanted, 
-        // BUT strict undo/redo requires position tracking.
-        // Let's leave onNodesChange pure for now and only instrument specific actions.
+        // Position changes are not recorded here: the editor wraps each drag in
+        // a transaction so that a whole drag becomes a single undo step.
+        let nodes = applyNodeChanges(changes, get().nodes);
+        // Nodes that were measured or grew make room for themselves.
+        if (changes.some((c) => c.type === 'dimensions' && !c.resizing)) {
+          const arranged = arrangeTrees(nodes, get().edges, get().layout);
+          nodes = arranged.nodes;
+          if (arranged.edges !== get().edges) {
+            set({ edges: arranged.edges });
+          }
+        }
+        const selectionChanges = changes.filter((c): c is NodeSelectionChange => c.type === 'select');
+        if (selectionChanges.length === 0) {
+          set({ nodes });
+          return;
+        }
 
+        // React Flow handles click, modifier-click and box selection; mirror
+        // the result so store actions can work on the whole selection.
+        const selectedNodeIds = nodes.filter((n) => n.selected).map((n) => n.id);
+        const newlySelected = selectionChanges.filter((c) => c.selected).pop();
+        const { selectedNodeId } = get();
+        const keepPrimary = selectedNodeId !== null && selectedNodeIds.includes(selectedNodeId);
         set({
-          nodes: applyNodeChanges(changes, get().nodes),
+          nodes,
+          selectedNodeIds,
+          selectedNodeId: newlySelected?.id ?? (keepPrimary ? selectedNodeId : selectedNodeIds[selectedNodeIds.length - 1] ?? null),
         });
       },
 
       onEdgesChange: (changes) => {
+        const edges = applyEdgeChanges(changes, get().edges);
+        if (!changes.some((c) => c.type === 'select')) {
+          set({ edges });
+          return;
+        }
+
+        // Only one edge is edited at a time: the last one clicked.
+        const newlySelected = changes.filter((c): c is EdgeSelectionChange => c.type === 'select' && c.selected).pop();
+        const { selectedEdgeId } = get();
         set({
-          edges: applyEdgeChanges(changes, get().edges),
+          edges,
+          selectedEdgeId: newlySelected?.id ?? (edges.some((e) => e.id === selectedEdgeId && e.selected) ? selectedEdgeId : null),
         });
       },
 
-      onConnect: (connection) => {
-        get().addToHistory(); // Save before connecting
-        const { edgeStyle, edgeColor, edgeLineStyle } = get();
+      deleteEdges: (edgeIds) => {
+        if (edgeIds.length === 0) return;
+        get().addToHistory(edgeIds.length === 1 ? 'Delete connection' : `Delete ${edgeIds.length} connections`);
+        const { selectedEdgeId } = get();
         set({
-          edges: addEdge(
-            {
-              ...connection,
-              type: edgeStyle,
-              animated: false,
-              style: {
-                strokeWidth: 2,
-                stroke: edgeColor,
-                strokeDasharray: edgeLineStyle === 'dashed' ? '5,5' : undefined,
-              },
-            },
-            get().edges
-          ),
+          ...arrangeTrees(get().nodes, get().edges.filter((e) => !edgeIds.includes(e.id)), get().layout),
+          selectedEdgeId: selectedEdgeId && edgeIds.includes(selectedEdgeId) ? null : selectedEdgeId,
+        });
+      },
+
+      pasteFragment: (fragment, requestedParentId) => {
+        const pasted = remapFragment(fragment, generateNodeId);
+        const { nodes, edges } = get();
+        const parentId = requestedParentId ?? getHoistedNodeId(get());
+        const parent = parentId ? nodes.find(n => n.id === parentId) : undefined;
+
+        // Put the first pasted branch where a new child of the parent would go,
+        // or just beside the originals when pasting without a target.
+        const anchor = pasted.nodes.find(n => n.id === pasted.rootIds[0]) ?? pasted.nodes[0];
+        const childCount = parent ? getChildIds(edges, parent.id).length : 0;
+        const offset = parent
+          ? { x: parent.position.x + 250 - anchor.position.x, y: parent.position.y + childCount * 60 - anchor.position.y }
+          : { x: 40, y: 40 };
+
+        const parentEdges: Edge[] = parent
+          ? pasted.rootIds.map((rootId) => ({
+            ...newEdgeDefaults(get(), pasted.nodes.find(n => n.id === rootId)?.data.layoutType === 'stacked'),
+            id: `edge-${parent.id}-${rootId}`,
+            source: parent.id,
+            target: rootId,
+          }))
+          : [];
+
+        get().addToHistory(
+          pasted.nodes.length === 1 ? 'Paste node' : `Paste ${pasted.nodes.length} nodes`,
+          pasted.nodes.length === 1 ? { nodeId: pasted.nodes[0].id } : {}
+        );
+        set(arrangeTrees(
+          [
+            ...expandNode(nodes, parent?.id),
+            ...pasted.nodes.map((node) => ({
+              ...node,
+              position: { x: node.position.x + offset.x, y: node.position.y + offset.y },
+            })),
+          ],
+          [...edges, ...pasted.edges, ...parentEdges],
+          get().layout
+        ));
+        get().setSelectedNodes(pasted.rootIds);
+      },
+
+      reparentNode: (nodeId, parentId) => {
+        const { nodes, edges } = get();
+        const node = nodes.find(n => n.id === nodeId);
+        const parent = nodes.find(n => n.id === parentId);
+        if (!node || !parent || !canReparent(edges, nodeId, parentId)) return false;
+
+        const oldEdge = edges.find(e => e.target === nodeId && isHierarchyEdge(e));
+        const newEdge: Edge = {
+          ...(oldEdge ?? newEdgeDefaults(get(), node.data.layoutType === 'stacked')),
+          id: `edge-${parentId}-${nodeId}`,
+          source: parentId,
+          target: nodeId,
+        };
+        const newEdges = [...edges.filter(e => e !== oldEdge), newEdge];
+
+        // Move the branch to where a new child of the parent would go.
+        const siblingIds = new Set(getChildIds(edges, parentId));
+        const dx = parent.position.x + 250 - node.position.x;
+        const dy = parent.position.y + siblingIds.size * 60 - node.position.y;
+        const subtree = getDescendantIds(edges, [nodeId]);
+        // Stacked nodes go to the end of their new list.
+        const order = node.data.order !== undefined
+          ? nodes
+            .filter(n => siblingIds.has(n.id))
+            .reduce((max, n) => Math.max(max, n.data.order ?? 0), 0) + 1
+          : undefined;
+
+        const newNodes = nodes.map(n => {
+          if (!subtree.has(n.id)) return n;
+          const moved = { ...n, position: { x: n.position.x + dx, y: n.position.y + dy } };
+          return n.id === nodeId ? { ...moved, data: { ...n.data, order } } : moved;
         });
+
+        get().addToHistory(`Move '${node.data.label}' under '${parent.data.label}'`);
+        set(arrangeTrees(expandNode(newNodes, parentId), newEdges, get().layout));
+        return true;
       },
 
-      addNode: (parentId, nodeType = 'text', layoutType = 'default') => {
-        get().addToHistory(); // Save before adding
+      moveSibling: (nodeId, index) => {
+        const { nodes, edges } = get();
+        const siblingIds = getSiblingIds(nodes, edges, nodeId);
+        const from = siblingIds.indexOf(nodeId);
+        const to = Math.max(0, Math.min(index, siblingIds.length - 1));
+        if (from === -1 || from === to) return false;
+
+        const reordered = [...siblingIds];
+        reordered.splice(from, 1);
+        reordered.splice(to, 0, nodeId);
+
+        // Each branch takes the place of the one it replaces, which is all
+        // that moves under the manual layout.
+        const byId = new Map(nodes.map(n => [n.id, n]));
+        const offsets = new Map<string, { dx: number; dy: number }>();
+        reordered.forEach((id, i) => {
+          const current = byId.get(id)!.position;
+          const target = byId.get(siblingIds[i])!.position;
+          getDescendantIds(edges, [id]).forEach(descendantId => {
+            offsets.set(descendantId, { dx: target.x - current.x, dy: target.y - current.y });
+          });
+        });
+        const newNodes = nodes.map(n => {
+          const offset = offsets.get(n.id);
+          if (!offset) return n;
+          const moved = { ...n, position: { x: n.position.x + offset.dx, y: n.position.y + offset.dy } };
+          return n.data.order !== undefined && reordered.includes(n.id)
+            ? { ...moved, data: { ...n.data, order: reordered.indexOf(n.id) + 1 } }
+            : moved;
+        });
+
+        // Other children keep their order in the edge list.
+        const parentId = getParentId(edges, nodeId);
+        const parentEdges = reordered.map(id =>
+          edges.find(e => e.source === parentId && e.target === id && isHierarchyEdge(e))!
+        );
+        const slots = new Set(parentEdges);
+        let slot = 0;
+        const newEdges = edges.map(e => (slots.has(e) ? parentEdges[slot++] : e));
+
+        const node = byId.get(nodeId)!;
+        get().addToHistory(`Move '${node.data.label}' ${to < from ? 'up' : 'down'}`, { nodeId });
+        set(arrangeTrees(newNodes, newEdges, get().layout));
+        return true;
+      },
+
+      setDropTarget: (nodeId) => {
+        if (get().dropTargetId !== nodeId) {
+          set({ dropTargetId: nodeId });
+        }
+      },
+
+      hoistNode: (nodeId) => {
+        set({ hoistedNodeId: nodeId === 'root' ? null : nodeId });
+      },
+
+      onConnect: (connection) => {
+        if (get().connectionKind === 'relationship') {
+          if (connection.source === connection.target) return;
+          get().addToHistory('Link nodes');
+          set({ edges: addEdge({ ...connection, ...relationshipEdgeDefaults }, get().edges) });
+          return;
+        }
+
+        // The editor already refuses these through `isValidConnection`.
+        if (get().graphMode === 'tree' && getTreeConnectionError(get().edges, connection)) return;
+        get().addToHistory('Connect nodes');
+        set(arrangeTrees(
+          expandNode(get().nodes, connection.source ?? undefined),
+          addEdge({ ...connection, ...newEdgeDefaults(get()) }, get().edges),
+          get().layout
+        ));
+      },
+
+      addNode: (requestedParentId, nodeType = 'text', layoutType = 'default') => {
+        // While a branch is hoisted, loose nodes go under it so that they stay in view.
+        const parentId = requestedParentId ?? getHoistedNodeId(get());
         const newNodeId = generateNodeId();
-        const { nodes, edges, edgeStyle, edgeColor, edgeLineStyle } = get();
+        get().addToHistory(nodeType === 'image' ? 'Add image node' : 'Add node', { nodeId: newNodeId });
+        const { nodes, edges } = get();
 
         // Calculate position
         let position = { x: window.innerWidth / 2 - 75, y: window.innerHeight / 2 - 25 };
@@ -235,30 +784,19 @@ export const useMindMapStore = create<MindMapState>()(
           const parentNode = nodes.find(n => n.id === parentId);
           if (parentNode) {
             // Find how many children this parent already has to offset vertically
-            const childEdges = edges.filter(e => e.source === parentId);
+            const childEdges = edges.filter(e => e.source === parentId && isHierarchyEdge(e));
             const childCount = childEdges.length;
 
-            const isStacked = layoutType === 'stacked';
-
             // Default spacing
             const VERTICAL_SPACING = 60;
             const HORIZONTAL_OFFSET = 250;
 
-            if (!isStacked) {
-              // Normal / Branch layout
-              // Spread or just place to the right with some randomness/jitter or simple offset
-              // This corresponds to "New Idea" connecting to "Testing Tool" in the user image
-              position = {
-                x: parentNode.position.x + HORIZONTAL_OFFSET + (Math.random() * 50),
-                y: parentNode.position.y + (childCount * 40) - 20 // Less spread than stacked, maybe?
-              };
-            } else {
-              // Stacked list layout
-              position = {
-                x: parentNode.position.x + HORIZONTAL_OFFSET,
-                y: parentNode.position.y + (childCount * VERTICAL_SPACING)
-              };
-            }
+            // Below the existing children. Maps with a layout move it into
+            // place right after; manual maps keep it here.
+            position = {
+              x: parentNode.position.x + HORIZONTAL_OFFSET,
+              y: parentNode.position.y + (childCount * VERTICAL_SPACING)
+            };
           }
         } else if (nodes.length > 0) {
           // If no parent but nodes exist (adding loose node), offset from last added
@@ -278,7 +816,7 @@ export const useMindMapStore = create<MindMapState>()(
             topics: [],
             order: (parentId && layoutType === 'stacked') ? (() => {
               // Find all sibling nodes (targets of edges from the same parent)
-              const siblingEdges = edges.filter(e => e.source === parentId);
+              const siblingEdges = edges.filter(e => e.source === parentId && isHierarchyEdge(e));
               const siblingNodes = nodes.filter(n => siblingEdges.some(e => e.target === n.id));
 
               // Find the max order among siblings
@@ -296,53 +834,44 @@ export const useMindMapStore = create<MindMapState>()(
           ? [
             ...edges,
             {
+              ...newEdgeDefaults(get(), layoutType === 'stacked'),
               id: `edge-${parentId}-${newNodeId}`,
               source: parentId,
               target: newNodeId,
-              type: layoutType === 'stacked' ? 'mindmap' : edgeStyle,
-              animated: false,
-              style: {
-                strokeWidth: 2,
-                stroke: edgeColor,
-                strokeDasharray: edgeLineStyle === 'dashed' ? '5,5' : undefined,
-              },
             },
           ]
           : edges;
 
-        set({
-          nodes: [...nodes, newNode],
-          edges: newEdges,
-          selectedNodeId: newNodeId,
-        });
+        set(arrangeTrees([...expandNode(nodes, parentId), newNode], newEdges, get().layout));
+        get().setSelectedNodes([newNodeId]);
       },
 
       updateNodeData: (nodeId, data) => {
-        // We don't want to save history on every single keystroke if this is bound to input onChange.
-        // Ideally we debounce or save on blur. 
-        // For now, let's save history here. If it's too frequent, we'll need to move addToHistory to the component's onBlur.
-        // We will assume calls to this are distinct enough or acceptable overhead.
-
-        // Actually, for text input, saving on every char is bad UX for undo (undoes 1 char).
-        // Let's check what data is being updated.
-        const isTextInput = 'label' in data || 'description' in data;
-
-        // If it's NOT text input (color, font, etc), save history. 
-        // If it IS text input, we trust the component to handle history or we accept no history for text yet?
-        // Let's save for non-text updates here. For text, we'll try to find a better spot or just accept it doesn't undo perfectly per word yet.
-        // Wait, the Color Picker calls this.
-
-        if (!isTextInput) {
-          get().addToHistory();
-        }
-        // NOTE: For text, we probably want to save history on BLUR in the component, not here.
-        // Current implementation in PropertiesPanel calls updateNodeData on change.
+        get().updateNodesData([nodeId], data);
+      },
+
+      updateNodesData: (nodeIds, data) => {
+        const ids = new Set(nodeIds);
+        // Edits that change nothing (an unchanged rename, the active swatch
+        // picked again) would leave an undo step that seems to do nothing.
+        const changed = get().nodes.some((node) =>
+          ids.has(node.id) &&
+          Object.entries(data).some(([field, value]) => !Object.is(node.data[field as keyof MindMapNodeData], value))
+        );
+        if (!changed) return;
+
+        // Typing and color dragging send an update per keystroke or pixel;
+        // those bursts are merged into one undo step per selection and field.
+        const fields = Object.keys(data) as (keyof MindMapNodeData)[];
+        const isContinuous = fields.length > 0 && fields.every(field => CONTINUOUS_FIELDS.includes(field));
+        const label = describeNodeUpdate(data);
+        get().addToHistory(nodeIds.length === 1 ? label : `${label} on ${nodeIds.length} nodes`, {
+          coalesceKey: isContinuous ? `node:${nodeIds.join(',')}:${fields.sort().join(',')}` : undefined,
+        });
 
         set({
           nodes: get().nodes.map((node) =>
-            node.id === nodeId
-              ? { ...node, data: { ...node.data, ...data } }
-              : node
+            ids.has(node.id) ? { ...node, data: { ...node.data, ...data } } : node
           ),
         });
       },
@@ -352,20 +881,84 @@ export const useMindMapStore = create<MindMapState>()(
         get().addToHistory();
       },
 
-      deleteNode: (nodeId) => {
-        if (nodeId === 'root') return;
-        get().addToHistory(); // Save before delete
+      deleteNode: (nodeId, mode) => {
+        return get().deleteNodes([nodeId], mode);
+      },
+
+      deleteNodes: (nodeIds, mode = 'subtree') => {
+        const { nodes, edges } = get();
+        // The root node can never be deleted, even as part of a selection.
+        const selected = nodeIds.filter((id) => id !== 'root');
+        const ids = mode === 'subtree' ? getDescendantIds(edges, selected) : new Set(selected);
+        ids.delete('root');
+        const deleted = nodes.filter((n) => ids.has(n.id));
+        if (deleted.length === 0) return 0;
+
+        // Children that survive are linked to the closest ancestor that does,
+        // keeping the style of the edge they hung from.
+        const reattached = new Map<string, Edge>();
+        if (mode === 'reparent') {
+          edges
+            .filter((e) => ids.has(e.source) && !ids.has(e.target) && isHierarchyEdge(e))
+            .forEach((e) => {
+              const parentId = getClosestAncestorOutside(edges, e.source, ids);
+              if (!parentId) return;
+              const id = `edge-${parentId}-${e.target}`;
+              reattached.set(id, { ...e, id, source: parentId });
+            });
+        }
+
+        const branchRoot = selected.length === 1 ? deleted.find((n) => n.id === selected[0]) : undefined;
+        let label = `Delete ${deleted.length} nodes`;
+        if (deleted.length === 1) {
+          label = `Delete node '${deleted[0].data.label}'`;
+        } else if (branchRoot) {
+          label = `Delete branch '${branchRoot.data.label}'`;
+        }
+        get().addToHistory(label);
+
         set({
-          nodes: get().nodes.filter((n) => n.id !== nodeId),
-          edges: get().edges.filter(
-            (e) => e.source !== nodeId && e.target !== nodeId
+          ...arrangeTrees(
+            nodes.filter((n) => !ids.has(n.id)),
+            [
+              ...edges.filter((e) => !ids.has(e.source) && !ids.has(e.target) && !reattached.has(e.id)),
+              ...reattached.values(),
+            ],
+            get().layout
           ),
           selectedNodeId: null,
+          selectedNodeIds: [],
+          selectedEdgeId: null,
+          hoistedNodeId: ids.has(get().hoistedNodeId ?? '') ? null : get().hoistedNodeId,
         });
+        return deleted.length;
       },
 
       setSelectedNode: (nodeId) => {
-        set({ selectedNodeId: nodeId });
+        get().setSelectedNodes(nodeId ? [nodeId] : []);
+      },
+
+      setSelectedNodes: (nodeIds) => {
+        const ids = new Set(nodeIds);
+        set({
+          nodes: get().nodes.map((node) =>
+            !!node.selected === ids.has(node.id) ? node : { ...node, selected: ids.has(node.id) }
+          ),
+          selectedNodeId: nodeIds[nodeIds.length - 1] ?? null,
+          selectedNodeIds: nodeIds,
+        });
+        if (nodeIds.length > 0) {
+          get().setSelectedEdge(null);
+        }
+      },
+
+      setSelectedEdge: (edgeId) => {
+        set({
+          edges: get().edges.map((edge) =>
+            !!edge.selected === (edge.id === edgeId) ? edge : { ...edge, selected: edge.id === edgeId }
+          ),
+          selectedEdgeId: edgeId,
+        });
       },
 
       setMapName: (name) => {
@@ -373,139 +966,165 @@ export const useMindMapStore = create<MindMapState>()(
       },
 
       setEdgeStyle: (style) => {
-        get().addToHistory();
-        set({
-          edgeStyle: style,
-          edges: get().edges.map(edge => ({
-            ...edge,
-            type: style,
-          })),
-        });
+        set({ edgeStyle: style });
       },
 
       setEdgeColor: (color) => {
-        get().addToHistory();
-        set({
-          edgeColor: color,
-          edges: get().edges.map(edge => ({
-            ...edge,
-            style: {
-              ...edge.style,
-              stroke: color,
-            },
-          })),
-        });
+        set({ edgeColor: color });
       },
 
       setEdgeLineStyle: (style) => {
-        get().addToHistory();
-        set({
-          edgeLineStyle: style,
-          edges: get().edges.map(edge => ({
-            ...edge,
-            style: {
-              ...edge.style,
-              strokeDasharray: style === 'dashed' ? '5,5' : undefined,
-            },
-          })),
-        });
+        set({ edgeLineStyle: style });
       },
 
-      toggleCollapse: (nodeId) => {
-        // Toggle collapse is a visual state, but maybe user wants to undo it? 
-        // Let's say yes.
-        get().addToHistory();
-        const { nodes, edges } = get();
-        const nodeIndex = nodes.findIndex(n => n.id === nodeId);
-        if (nodeIndex === -1) return;
+      setGraphMode: (mode) => {
+        if (mode === 'tree' && getTreeError(get().edges)) return false;
+        set({ graphMode: mode });
+        return true;
+      },
 
-        const node = nodes[nodeIndex];
-        const isCollapsed = !node.data.collapsed;
+      setLayout: (layout) => {
+        get().addToHistory(`Use ${layout.replace('-', ' ')} layout`);
+        set({ layout, ...arrangeTrees(get().nodes, get().edges, layout) });
+      },
 
-        // Update the collapsed state of the parent node
-        const updatedNodes = [...nodes];
-        updatedNodes[nodeIndex] = {
-          ...node,
-          data: { ...node.data, collapsed: isCollapsed }
-        };
+      setSubtreeLayout: (nodeId, layout) => {
+        const node = get().nodes.find(n => n.id === nodeId);
+        // Stacked nodes are list items and always follow their list.
+        if (!node || node.data.layoutType === 'stacked') return;
 
-        // Recursively find all descendants starting ONLY from STACKED children
-        const getDescendants = (parentId: string, isFirstLevel: boolean = false): string[] => {
-          // Get all direct children
-          const childrenEdges = edges.filter(e => e.source === parentId);
-          const childrenNodes = childrenEdges.map(e => nodes.find(n => n.id === e.target)).filter(Boolean);
-
-          // If we are at the first level (the clicked node), we ONLY want to collapse STACKED children.
-          // If we use 'isFirstLevel' flag, we can filter.
-          // For subsequent levels, if a node is hidden, ALL its children should be hidden regardless of type (standard tree behavior).
-
-          let validChildren: string[] = [];
-
-          if (isFirstLevel) {
-            // Filter: Only keep 'stacked' nodes
-            validChildren = childrenNodes
-              .filter(n => n?.data.layoutType === 'stacked')
-              .map(n => n!.id);
-          } else {
-            // For deeper levels, take everything (cascade hide)
-            validChildren = childrenNodes.map(n => n!.id);
-          }
+        get().addToHistory(
+          layout ? `Use ${layout.replace('-', ' ')} layout for '${node.data.label}'` : `Inherit layout for '${node.data.label}'`,
+          { nodeId }
+        );
+        const nodes = patchNodeData(
+          get().nodes,
+          nodeId,
+          layout ? { layoutType: 'structure', structure: layout } : { layoutType: 'default', structure: undefined }
+        );
+        set(arrangeTrees(nodes, get().edges, get().layout));
+      },
 
-          let descendants = [...validChildren];
-          validChildren.forEach(childId => {
-            descendants = [...descendants, ...getDescendants(childId, false)];
-          });
-          return descendants;
-        };
+      relayout: () => {
+        set(arrangeTrees(get().nodes, get().edges, get().layout));
+      },
 
-        const descendantIds = getDescendants(nodeId, true);
+      setConnectionKind: (kind) => {
+        set({ connectionKind: kind });
+      },
 
-        // Hide/Show descendants
-        descendantIds.forEach(id => {
-          const index = updatedNodes.findIndex(n => n.id === id);
-          if (index !== -1) {
-            updatedNodes[index] = {
-              ...updatedNodes[index],
-              hidden: isCollapsed
-            };
-          }
-        });
+      updateEdge: (edgeId, update) => {
+        const edge = get().edges.find(e => e.id === edgeId);
+        const fields = Object.keys(update) as (keyof EdgeUpdate)[];
+        if (!edge || fields.length === 0) return;
 
-        // Hide/Show edges connected to descendants or source node if collapsed
-        const updatedEdges = edges.map(edge => {
-          if (descendantIds.includes(edge.target)) {
-            return { ...edge, hidden: isCollapsed };
-          }
-          return edge;
+        // Label typing, color dragging and width sliding become one undo step.
+        const isContinuous = fields.every(field => CONTINUOUS_EDGE_FIELDS.includes(field));
+        get().addToHistory(describeEdgeUpdate(update), {
+          coalesceKey: isContinuous ? `edge:${edgeId}:${fields.sort().join(',')}` : undefined,
         });
 
-        set({ nodes: updatedNodes, edges: updatedEdges });
+        const { label, ...appearance } = update;
+        let updated = Object.keys(appearance).length > 0 ? applyEdgeAppearance(edge, appearance) : edge;
+        if ('label' in update) {
+          updated = { ...updated, data: { ...updated.data, label } };
+        }
+        set({ edges: get().edges.map(e => (e.id === edgeId ? updated : e)) });
+      },
+
+      toggleCollapse: (nodeId) => {
+        const { nodes, edges } = get();
+        const node = nodes.find(n => n.id === nodeId);
+        if (!node || getChildIds(edges, nodeId).length === 0) return;
+
+        const collapsed = !node.data.collapsed;
+        get().addToHistory(collapsed ? 'Collapse' : 'Expand', { nodeId });
+        set(arrangeTrees(
+          nodes.map(n => (n.id === nodeId ? { ...n, data: { ...n.data, collapsed } } : n)),
+          edges,
+          get().layout
+        ));
+      },
+
+      expandAll: () => {
+        const { nodes, edges } = get();
+        const newNodes = setFolding(nodes, edges, () => false);
+        if (newNodes.every((n, i) => n === nodes[i])) return;
+        get().addToHistory('Expand all');
+        set(arrangeTrees(newNodes, edges, get().layout));
+      },
+
+      collapseAll: () => {
+        const { nodes, edges } = get();
+        const newNodes = setFolding(nodes, edges, () => true);
+        if (newNodes.every((n, i) => n === nodes[i])) return;
+        get().addToHistory('Collapse all');
+        set(arrangeTrees(newNodes, edges, get().layout));
+      },
+
+      showLevels: (level) => {
+        const { nodes, edges } = get();
+        const depths = getNodeDepths(nodes, edges);
+        // Nodes on a loop have no depth and keep their folding.
+        const newNodes = setFolding(nodes, edges, (id) =>
+          depths.has(id) ? depths.get(id)! >= level : !!nodes.find(n => n.id === id)?.data.collapsed
+        );
+        if (newNodes.every((n, i) => n === nodes[i])) return;
+        get().addToHistory(level === 1 ? 'Show 1 level' : `Show ${level} levels`);
+        set(arrangeTrees(newNodes, edges, get().layout));
       },
 
       addSibling: (nodeId: string) => {
-        get().addToHistory();
-        const { edges, addNode, nodes } = get();
-        // Find parent edge (where target is the sibling node)
-        const parentEdge = edges.find(e => e.target === nodeId);
+        const { nodes, edges, addNode } = get();
+        const parentId = getParentId(edges, nodeId);
+        if (!parentId) {
+          // Beside a loose node, a new loose node; the root has no siblings.
+          if (nodeId !== 'root') addNode();
+          return;
+        }
 
-        if (parentEdge) {
-          // Add node to the same parent
-          addNode(parentEdge.source);
-        } else {
-          // No parent? It's likely a root node or detached.
-          // If root, maybe do nothing or add a separate root? 
-          // Usually we don't add siblings to Root in strict maps, but let's allow "secondary root" or just ignore.
-          // For now, let's treat it as adding a loose node if it's not the main root.
-          if (nodeId !== 'root') {
-            // Creating a loose node near the current one? 
-            // Logic in addNode handles "no parent" by placing it near last node.
-            addNode();
+        // The new node goes right after this one, in the same list.
+        const stacked = nodes.find(n => n.id === nodeId)?.data.layoutType === 'stacked';
+        get().beginTransaction();
+        addNode(parentId, 'text', stacked ? 'stacked' : 'default');
+        const newNodeId = get().selectedNodeId!;
+        get().moveSibling(newNodeId, getSiblingIds(get().nodes, get().edges, nodeId).indexOf(nodeId) + 1);
+        get().addToHistory('Add node', { nodeId: newNodeId });
+        get().commitTransaction();
+      },
+
+      indentNode: (nodeId) => {
+        const { nodes, edges } = get();
+        const parentId = getParentId(edges, nodeId);
+        if (!parentId) return false;
+        const siblingIds = getOrderedChildIds(nodes, edges, parentId);
+        const previousId = siblingIds[siblingIds.indexOf(nodeId) - 1];
+        return previousId !== undefined && get().reparentNode(nodeId, previousId);
+      },
+
+      outdentNode: (nodeId) => {
+        const { nodes, edges } = get();
+        const node = nodes.find(n => n.id === nodeId);
+        const parentId = getParentId(edges, nodeId);
+        const grandparentId = parentId && getParentId(edges, parentId);
+        const parent = nodes.find(n => n.id === parentId);
+        if (!node || !parent || !grandparentId) return false;
+
+        get().beginTransaction();
+        const moved = get().reparentNode(nodeId, grandparentId);
+        if (moved) {
+          // Right after its old parent, when they share a list.
+          const siblingIds = getSiblingIds(get().nodes, get().edges, nodeId);
+          if (siblingIds.includes(parent.id)) {
+            get().moveSibling(nodeId, siblingIds.indexOf(parent.id) + 1);
           }
+          get().addToHistory(`Move '${node.data.label}' out of '${parent.data.label}'`);
         }
+        get().commitTransaction();
+        return moved;
       },
 
       addTopic: (nodeId) => {
-        get().addToHistory();
         const { nodes } = get();
         const node = nodes.find(n => n.id === nodeId);
         if (!node) return;
@@ -517,12 +1136,11 @@ export const useMindMapStore = create<MindMapState>()(
           subTopics: [],
         };
 
-        get().updateNodeData(nodeId, { topics: [...topics, newTopic] });
+        get().addToHistory('Add topic');
+        set({ nodes: patchNodeData(nodes, nodeId, { topics: [...topics, newTopic] }) });
       },
 
       updateTopic: (nodeId, topicId, label) => {
-        // Debounce?
-        get().addToHistory();
         const { nodes } = get();
         const node = nodes.find(n => n.id === nodeId);
         if (!node || !node.data.topics) return;
@@ -531,21 +1149,21 @@ export const useMindMapStore = create<MindMapState>()(
           topic.id === topicId ? { ...topic, label } : topic
         );
 
-        get().updateNodeData(nodeId, { topics });
+        get().addToHistory(`Rename topic to '${label}'`, { coalesceKey: `topic:${topicId}` });
+        set({ nodes: patchNodeData(nodes, nodeId, { topics }) });
       },
 
       deleteTopic: (nodeId, topicId) => {
-        get().addToHistory();
         const { nodes } = get();
         const node = nodes.find(n => n.id === nodeId);
         if (!node || !node.data.topics) return;
 
         const topics = node.data.topics.filter(topic => topic.id !== topicId);
-        get().updateNodeData(nodeId, { topics });
+        get().addToHistory('Delete topic');
+        set({ nodes: patchNodeData(nodes, nodeId, { topics }) });
       },
 
       addSubTopic: (nodeId, topicId) => {
-        get().addToHistory();
         const { nodes } = get();
         const node = nodes.find(n => n.id === nodeId);
         if (!node || !node.data.topics) return;
@@ -561,11 +1179,11 @@ export const useMindMapStore = create<MindMapState>()(
           return topic;
         });
 
-        get().updateNodeData(nodeId, { topics });
+        get().addToHistory('Add sub-topic');
+        set({ nodes: patchNodeData(nodes, nodeId, { topics }) });
       },
 
       updateSubTopic: (nodeId, topicId, subTopicId, label) => {
-        get().addToHistory();
         const { nodes } = get();
         const node = nodes.find(n => n.id === nodeId);
         if (!node || !node.data.topics) return;
@@ -582,11 +1200,11 @@ export const useMindMapStore = create<MindMapState>()(
           return topic;
         });
 
-        get().updateNodeData(nodeId, { topics });
+        get().addToHistory(`Rename sub-topic to '${label}'`, { coalesceKey: `subtopic:${subTopicId}` });
+        set({ nodes: patchNodeData(nodes, nodeId, { topics }) });
       },
 
       deleteSubTopic: (nodeId, topicId, subTopicId) => {
-        get().addToHistory();
         const { nodes } = get();
         const node = nodes.find(n => n.id === nodeId);
         if (!node || !node.data.topics) return;
@@ -601,105 +1219,350 @@ export const useMindMapStore = create<MindMapState>()(
           return topic;
         });
 
-        get().updateNodeData(nodeId, { topics });
+        get().addToHistory('Delete sub-topic');
+        set({ nodes: patchNodeData(nodes, nodeId, { topics }) });
       },
 
       clearMap: () => {
-        get().addToHistory();
-        nodeIdCounter = 1;
-        set({
-          nodes: initialNodes,
-          edges: initialEdges,
-          selectedNodeId: null,
-          mapName: 'Untitled Mind Map',
-          mapId: generateMapId(),
-        });
+        // A cleared map is a new, unsaved map: the old one keeps its history
+        // and stays in the library as it was last saved.
+        get().createNewMap();
       },
 
       exportToJson: () => {
-        const { nodes, edges, mapName, edgeStyle, edgeColor, edgeLineStyle } = get();
-        return JSON.stringify({ nodes, edges, mapName, edgeStyle, edgeColor, edgeLineStyle }, null, 2);
+        return get().exportAs(jsonFormat);
+      },
+
+      exportAs: (format) => {
+        const { nodes, edges, mapName, mapId, savedMaps, edgeStyle, edgeColor, edgeLineStyle, graphMode, layout } = get();
+        const saved = savedMaps.find(m => m.id === mapId);
+        return (format.write ?? serializeDocument)({
+          map: { id: mapId, name: mapName, createdAt: saved?.createdAt, updatedAt: saved?.updatedAt },
+          settings: { edgeStyle, edgeColor, edgeLineStyle, graphMode, layout },
+          nodes,
+          edges,
+        });
       },
 
       importFromJson: (json) => {
-        get().addToHistory();
-        try {
-          const data = JSON.parse(json);
-          if (data.nodes && data.edges) {
-            set({
-              nodes: data.nodes,
-              edges: data.edges,
-              mapName: data.mapName || 'Imported Mind Map',
-              edgeStyle: data.edgeStyle || 'smoothstep',
-              edgeColor: data.edgeColor || 'hsl(var(--edge-primary))',
-              edgeLineStyle: data.edgeLineStyle || 'solid',
-              selectedNodeId: null,
-            });
-          }
-        } catch (e) {
-          console.error('Failed to import JSON:', e);
+        const result = importDocument(json);
+        if (result.document) {
+          get().loadDocument(result.document);
         }
+        return result;
       },
 
-      saveCurrentMap: () => {
-        const { nodes, edges, mapName, mapId, savedMaps } = get();
-        const now = new Date().toISOString();
+      importFromFile: (text, fileName) => {
+        const result = importFile(text, fileName);
+        if (result.document) {
+          get().loadDocument(result.document);
+        }
+        return result;
+      },
+
+      importFromXMind: async (data, fileName) => {
+        const result = await importXMind(data, fileName);
+        const [first, ...others] = result.documents;
+        for (const doc of others) {
+          const now = new Date().toISOString();
+          const summary = await mapStorage.putMap({
+            id: generateMapId(),
+            name: doc.map.name,
+            createdAt: now,
+            updatedAt: now,
+            nodes: doc.nodes,
+            edges: doc.edges,
+            graphMode: doc.settings.graphMode,
+            layout: doc.settings.layout,
+          });
+          set({ savedMaps: upsertSummary(get().savedMaps, summary) });
+        }
+        if (first) {
+          get().loadDocument(first);
+        }
+        return result;
+      },
+
+      loadDocument: (doc) => {
+        // Imports always open as a new map so that autosave never writes them
+        // over the map that was open before.
+        const { mapId: currentMapId, past, future } = get();
+        const mapId = generateMapId();
+        set({
+          ...switchHistory(currentMapId, { past, future }, mapId),
+          mapId,
+          isDirty: true,
+          nodes: doc.nodes,
+          edges: doc.edges,
+          mapName: doc.map.name || 'Imported Mind Map',
+          edgeStyle: doc.settings.edgeStyle,
+          edgeColor: doc.settings.edgeColor,
+          edgeLineStyle: doc.settings.edgeLineStyle,
+          graphMode: graphModeFor(doc.settings.graphMode, doc.edges),
+          layout: doc.settings.layout ?? DEFAULT_LAYOUT,
+          selectedNodeId: null,
+          selectedNodeIds: [],
+          selectedEdgeId: null,
+          hoistedNodeId: null,
+        });
+      },
 
-        const existingIndex = savedMaps.findIndex(m => m.id === mapId);
+      refreshLibrary: async () => {
+        set({ savedMaps: await mapStorage.listMaps() });
+      },
+
+      saveCurrentMap: async ({ autosave = false } = {}) => {
+        const { nodes, edges, mapName, mapId, graphMode, layout, savedMaps } = get();
+        const now = new Date().toISOString();
+        const existing = savedMaps.find(m => m.id === mapId);
 
         const mapData: SavedMap = {
           id: mapId,
           name: mapName,
-          createdAt: existingIndex >= 0 ? savedMaps[existingIndex].createdAt : now,
+          createdAt: existing ? existing.createdAt : now,
           updatedAt: now,
           nodes,
           edges,
+          graphMode,
+          layout,
         };
 
-        if (existingIndex >= 0) {
-          const updatedMaps = [...savedMaps];
-          updatedMaps[existingIndex] = mapData;
-          set({ savedMaps: updatedMaps });
-        } else {
-          set({ savedMaps: [...savedMaps, mapData] });
+        const previous = existing ? await mapStorage.getMap(mapId) : undefined;
+        if (previous && !sameContent(previous, mapData) && (!autosave || await autoSnapshotDue(mapId))) {
+          await recordAutoSnapshot(previous, 'Previous save');
         }
+
+        const summary = await mapStorage.putMap(mapData);
+        const state = get();
+        // Edits made while the write was in flight still need saving.
+        const upToDate = state.mapId === mapId &&
+          state.mapName === mapName &&
+          state.graphMode === graphMode &&
+          state.layout === layout &&
+          !hasContentChanged(mapData, state);
+        set({
+          savedMaps: upsertSummary(state.savedMaps, summary),
+          isDirty: state.isDirty && !upToDate,
+        });
       },
 
-      loadMap: (mapId) => {
-        const { savedMaps } = get();
-        const map = savedMaps.find(m => m.id === mapId);
-        if (map) {
-          get().addToHistory();
+      discardChanges: async () => {
+        const stored = await mapStorage.getMap(get().mapId);
+        if (stored) {
+          get().addToHistory('Discard changes');
           set({
-            nodes: map.nodes,
-            edges: map.edges,
-            mapName: map.name,
-            mapId: map.id,
+            nodes: stored.nodes,
+            edges: stored.edges,
+            mapName: stored.name,
+            graphMode: graphModeFor(stored.graphMode, stored.edges),
+            layout: stored.layout ?? DEFAULT_LAYOUT,
             selectedNodeId: null,
+            selectedNodeIds: [],
+            selectedEdgeId: null,
           });
         }
+        set({ isDirty: false });
       },
 
-      deleteMap: (mapId) => {
+      loadMap: async (mapId) => {
+        const map = await mapStorage.getMap(mapId);
+        if (!map) return false;
+
+        const { mapId: currentMapId, past, future } = get();
+        set({
+          ...switchHistory(currentMapId, { past, future }, map.id),
+          nodes: map.nodes,
+          edges: map.edges,
+          mapName: map.name,
+          mapId: map.id,
+          graphMode: graphModeFor(map.graphMode, map.edges),
+          layout: map.layout ?? DEFAULT_LAYOUT,
+          selectedNodeId: null,
+          selectedNodeIds: [],
+          selectedEdgeId: null,
+          hoistedNodeId: null,
+          isDirty: false,
+        });
+        return true;
+      },
+
+      deleteMap: async (mapId) => {
+        await mapStorage.deleteMap(mapId);
+        forgetHistory(mapId);
         set({
           savedMaps: get().savedMaps.filter(m => m.id !== mapId),
         });
       },
 
+      listSnapshots: async (mapId) => {
+        const snapshots = await mapStorage.listSnapshots(mapId);
+        return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      },
+
+      createCheckpoint: async (mapId, name) => {
+        let content: Pick<SavedMap, 'nodes' | 'edges' | 'graphMode' | 'layout'> | undefined;
+        if (mapId === get().mapId) {
+          // Checkpoints of the open map capture what is on screen, so save it first.
+          await get().saveCurrentMap();
+          content = get();
+        } else {
+          content = await mapStorage.getMap(mapId);
+        }
+        if (!content) return;
+
+        await mapStorage.putSnapshot({
+          id: generateSnapshotId(),
+          mapId,
+          name: name.trim() || 'Checkpoint',
+          kind: 'manual',
+          createdAt: new Date().toISOString(),
+          nodes: content.nodes,
+          edges: content.edges,
+          graphMode: content.graphMode,
+          layout: content.layout,
+        });
+      },
+
+      restoreSnapshot: async (snapshotId) => {
+        const snapshot = await mapStorage.getSnapshot(snapshotId);
+        if (!snapshot) return false;
+
+        const stored = await mapStorage.getMap(snapshot.mapId);
+        const isOpen = get().mapId === snapshot.mapId;
+        const now = new Date().toISOString();
+
+        // Whatever the restore replaces becomes a snapshot itself.
+        const current = stored && isOpen
+          ? { ...stored, nodes: get().nodes, edges: get().edges, graphMode: get().graphMode, layout: get().layout, updatedAt: now }
+          : stored;
+        if (current && !sameContent(current, snapshot)) {
+          await recordAutoSnapshot(current, `Before restoring '${snapshot.name}'`);
+        }
+
+        const summary = await mapStorage.putMap({
+          id: snapshot.mapId,
+          name: stored?.name ?? (isOpen ? get().mapName : 'Restored Mind Map'),
+          createdAt: stored?.createdAt ?? snapshot.createdAt,
+          updatedAt: now,
+          nodes: snapshot.nodes,
+          edges: snapshot.edges,
+          graphMode: snapshot.graphMode ?? stored?.graphMode,
+          layout: snapshot.layout ?? stored?.layout,
+        });
+        set({ savedMaps: upsertSummary(get().savedMaps, summary) });
+
+        if (isOpen) {
+          get().addToHistory(`Restore '${snapshot.name}'`);
+          set({
+            nodes: snapshot.nodes,
+            edges: snapshot.edges,
+            graphMode: snapshot.graphMode ?? get().graphMode,
+            layout: snapshot.layout ?? get().layout,
+            selectedNodeId: null,
+            selectedNodeIds: [],
+            selectedEdgeId: null,
+          });
+          set({ isDirty: false });
+        }
+        return true;
+      },
+
+      restoreSnapshotAsCopy: async (snapshotId) => {
+        const snapshot = await mapStorage.getSnapshot(snapshotId);
+        if (!snapshot) return null;
+
+        const source = await mapStorage.getMap(snapshot.mapId);
+        const now = new Date().toISOString();
+        const summary = await mapStorage.putMap({
+          id: generateMapId(),
+          name: `${source?.name ?? 'Mind Map'} (${snapshot.name})`,
+          createdAt: now,
+          updatedAt: now,
+          nodes: snapshot.nodes,
+          edges: snapshot.edges,
+          // Older snapshots did not record these; the map's own are the best guess.
+          graphMode: snapshot.graphMode ?? source?.graphMode,
+          layout: snapshot.layout ?? source?.layout,
+        });
+        set({ savedMaps: upsertSummary(get().savedMaps, summary) });
+        return summary.id;
+      },
+
+      deleteSnapshot: async (snapshotId) => {
+        await mapStorage.deleteSnapshot(snapshotId);
+      },
+
       createNewMap: () => {
-        get().addToHistory();
+        const { mapId: currentMapId, past, future } = get();
+        const mapId = generateMapId();
         nodeIdCounter = 1;
         set({
+          ...switchHistory(currentMapId, { past, future }, mapId),
           nodes: initialNodes,
           edges: initialEdges,
           selectedNodeId: null,
+          selectedNodeIds: [],
+          selectedEdgeId: null,
+          hoistedNodeId: null,
           mapName: 'Untitled Mind Map',
-          mapId: generateMapId(),
+          mapId,
+          graphMode: 'tree',
+          layout: DEFAULT_LAYOUT,
+          isDirty: false,
         });
       },
     }),
     {
-      name: 'mindmap-storage',
+      name: SESSION_KEY,
+      storage: createJSONStorage(() => mapStorage.session),
+      // The library lives in its own records and undo history stays in memory,
+      // so only the open map is part of the session.
+      partialize: ({ savedMaps, past, future, dropTargetId, connectionKind, hoistedNodeId, ...state }) => state,
+      version: 2,
+      migrate: (persistedState, version) => {
+        let state = persistedState as Partial<MindMapState>;
+        // v0 sessions still carried the whole undo history; drop it on load.
+        if (version < 1 && state && typeof state === 'object') {
+          const { past, future, savedMaps, ...rest } = state;
+          state = rest;
+        }
+        // v1 sessions predate layouts; keep their nodes where they are.
+        if (version < 2 && state && typeof state === 'object') {
+          state = { ...state, layout: DEFAULT_LAYOUT };
+        }
+        return state as MindMapState;
+      },
+      // Hydration waits for `initializeStore` so legacy data is migrated first.
+      skipHydration: true,
     }
   )
 );
+
+// Marks the open map dirty when its content or name changes. Switching to
+// another map is not an edit; the actions that do it set the flag themselves.
+const trackUnsavedChanges = (state: MindMapState, previous: MindMapState) => {
+  if (state.isDirty || state.mapId !== previous.mapId) return;
+  if (
+    state.mapName !== previous.mapName ||
+    state.graphMode !== previous.graphMode ||
+    state.layout !== previous.layout ||
+    hasContentChanged(previous, state)
+  ) {
+    useMindMapStore.setState({ isDirty: true });
+  }
+};
+
+/**
+ * Prepares storage and restores the previous session. Must finish before the
+ * app renders, otherwise the first state change would overwrite the session.
+ */
+export const initializeStore = async () => {
+  try {
+    await migrateLegacyLocalStorage(mapStorage, SESSION_KEY);
+  } catch (e) {
+    console.error('Failed to migrate legacy storage:', e);
+  }
+  await useMindMapStore.persist.rehydrate();
+  await useMindMapStore.getState().refreshLibrary();
+  useMindMapStore.subscribe(trackUnsavedChanges);
+};